@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../helpers/logs.js';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 
 const log = logger('authorization');
 
@@ -86,6 +87,23 @@ export function resolveUserPermissions(user: AuthenticatedUser): Permission[] {
   return Array.from(base);
 }
 
+// Carry the authenticated user on the SDK's per-request authInfo so MCP
+// handlers never depend on state shared between concurrent requests.
+export function toAuthInfo(user: AuthenticatedUser, token: string): AuthInfo {
+  return {
+    token,
+    clientId: user.id,
+    scopes: resolveUserPermissions(user),
+    expiresAt: user.exp,
+    extra: { user },
+  };
+}
+
+export function getAuthenticatedUser(authInfo?: AuthInfo): AuthenticatedUser | null {
+  const user = authInfo?.extra?.user as AuthenticatedUser | undefined;
+  return user ?? null;
+}
+
 export function hasPermission(user: AuthenticatedUser, permission: Permission): boolean {
   const tracer = trace.getTracer('authorization');
   const span = tracer.startSpan('authorization.hasPermission', {
@@ -0,0 +1,198 @@
+import fs from "node:fs/promises";
+import { createPublicKey, JsonWebKey, KeyObject } from "node:crypto";
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { logger } from "../helpers/logs.js";
+
+const log = logger("jwks");
+
+// Where an issuer's signing keys come from. A discovery document is read
+// for its `jwks_uri`; a file is re-read on every refresh, which keeps
+// offline tests and air-gapped setups simple.
+export type JwksSource =
+  | { type: "uri"; uri: string }
+  | { type: "discovery"; url: string; issuer: string }
+  | { type: "file"; path: string };
+
+export interface JwksPolicy {
+  // Keys are refetched after this long even if every kid is known
+  cacheMaxAgeMs: number;
+  // An unknown kid triggers a refetch at most this often
+  minRefreshIntervalMs: number;
+  fetchTimeoutMs: number;
+}
+
+export const DEFAULT_JWKS_POLICY: JwksPolicy = {
+  cacheMaxAgeMs: 10 * 60 * 1000,
+  minRefreshIntervalMs: 30 * 1000,
+  fetchTimeoutMs: 5000,
+};
+
+interface SigningKey {
+  kid?: string;
+  alg?: string;
+  kty: string;
+  key: KeyObject;
+}
+
+export class JwksKeySource {
+  private keys: SigningKey[] = [];
+  private fetchedAt = 0;
+  private attemptedAt = 0;
+  private refreshing: Promise<void> | null = null;
+  private jwksUri: string | null = null;
+
+  constructor(
+    private readonly source: JwksSource,
+    private readonly policy: JwksPolicy = DEFAULT_JWKS_POLICY
+  ) {}
+
+  async getKey(kid: string | undefined, alg: string): Promise<KeyObject> {
+    if (this.refreshing) {
+      await this.refreshing;
+    }
+
+    // Failed fetches are retried no more often than unknown kids
+    const mayRefresh =
+      Date.now() - this.attemptedAt >= this.policy.minRefreshIntervalMs;
+    if (mayRefresh && Date.now() - this.fetchedAt > this.policy.cacheMaxAgeMs) {
+      await this.refresh();
+    }
+
+    let key = this.find(kid, alg);
+    if (!key && Date.now() - this.attemptedAt >= this.policy.minRefreshIntervalMs) {
+      // The issuer may have rotated its keys since the last fetch
+      await this.refresh();
+      key = this.find(kid, alg);
+    }
+    if (!key) {
+      throw new Error(
+        kid
+          ? `No ${alg} signing key with kid "${kid}"`
+          : `Token has no kid and no single ${alg} signing key matches`
+      );
+    }
+    return key;
+  }
+
+  private find(kid: string | undefined, alg: string): KeyObject | undefined {
+    const candidates = this.keys.filter(
+      (candidate) =>
+        (!candidate.alg || candidate.alg === alg) &&
+        candidate.kty === (alg.startsWith("ES") ? "EC" : "RSA")
+    );
+    if (kid) {
+      return candidates.find((candidate) => candidate.kid === kid)?.key;
+    }
+    return candidates.length === 1 ? candidates[0].key : undefined;
+  }
+
+  // Concurrent callers share one fetch. A failed refresh keeps the keys that
+  // were already cached.
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.load().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async load() {
+    const tracer = trace.getTracer("authentication");
+    const span = tracer.startSpan("auth.jwks.refresh", {
+      attributes: { "jwks.source": this.source.type },
+    });
+    this.attemptedAt = Date.now();
+
+    try {
+      const document = await this.readKeySet();
+      const keys: SigningKey[] = [];
+      for (const jwk of document.keys) {
+        if (jwk.use && jwk.use !== "sig") {
+          continue;
+        }
+        try {
+          keys.push({
+            kid: jwk.kid,
+            alg: jwk.alg,
+            kty: jwk.kty as string,
+            key: createPublicKey({ key: jwk, format: "jwk" }),
+          });
+        } catch (error) {
+          log.warn(
+            `Skipping unusable JWK ${jwk.kid ?? "(no kid)"}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+
+      this.keys = keys;
+      this.fetchedAt = Date.now();
+      span.setAttribute("jwks.key_count", keys.length);
+      span.setStatus({ code: SpanStatusCode.OK });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message });
+      // Rediscover the key set location next time
+      this.jwksUri = null;
+      if (this.keys.length === 0) {
+        throw error;
+      }
+      log.warn(`JWKS refresh failed, keeping ${this.keys.length} cached key(s): ${message}`);
+    } finally {
+      span.end();
+    }
+  }
+
+  private async readKeySet(): Promise<{ keys: (JsonWebKey & { kid?: string; alg?: string; use?: string })[] }> {
+    let document: unknown;
+    if (this.source.type === "file") {
+      document = JSON.parse(await fs.readFile(this.source.path, "utf8"));
+    } else {
+      document = await this.fetchJson(await this.resolveJwksUri());
+    }
+
+    const keys = (document as { keys?: unknown })?.keys;
+    if (!Array.isArray(keys)) {
+      throw new Error("JWKS document has no keys array");
+    }
+    return { keys };
+  }
+
+  private async resolveJwksUri(): Promise<string> {
+    if (this.source.type === "uri") {
+      return this.source.uri;
+    }
+    if (this.source.type !== "discovery") {
+      throw new Error("Key source has no URI");
+    }
+    if (!this.jwksUri) {
+      const metadata = (await this.fetchJson(this.source.url)) as {
+        issuer?: string;
+        jwks_uri?: string;
+      };
+      // OpenID Connect Discovery requires the document to name the issuer
+      if (metadata.issuer !== this.source.issuer) {
+        throw new Error(
+          `Discovery document issuer "${metadata.issuer}" does not match "${this.source.issuer}"`
+        );
+      }
+      if (!metadata.jwks_uri) {
+        throw new Error("Discovery document has no jwks_uri");
+      }
+      this.jwksUri = metadata.jwks_uri;
+    }
+    return this.jwksUri;
+  }
+
+  private async fetchJson(url: string): Promise<unknown> {
+    const response = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(this.policy.fetchTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`GET ${url} answered ${response.status}`);
+    }
+    return response.json();
+  }
+}
@@ -8,6 +8,7 @@ import {
   Permission,
 } from "./authorization.js";
 import { logger } from "../helpers/logs.js";
+import { ASYMMETRIC_ALGORITHMS, AuthConfig, OidcVerifier } from "./oidc.js";
 
 const log = logger("authentication");
 
@@ -25,18 +26,39 @@ export class JWTService {
   private static readonly SECRET = process.env.JWT_SECRET;
   private static readonly AUDIENCE = process.env.JWT_AUDIENCE || "urn:bar";
   private static readonly ISSUER = process.env.JWT_ISSUER || "urn:foo";
-  static verifyToken(token: string): AuthenticatedUser {
+  private static oidc: OidcVerifier | null = null;
+
+  // Trust the asymmetric issuers from the auth configuration file in
+  // addition to HS256 tokens signed with JWT_SECRET.
+  static configure(config: AuthConfig, baseDir: string) {
+    this.oidc = config.issuers.length > 0 ? new OidcVerifier(config, baseDir) : null;
+  }
+
+  static async verifyToken(token: string): Promise<AuthenticatedUser> {
+    // Only asymmetric tokens go to the configured issuers; everything else
+    // is checked against JWT_SECRET exactly as before.
+    const decoded = this.oidc ? jwt.decode(token, { complete: true }) : null;
+    if (
+      this.oidc &&
+      decoded &&
+      typeof decoded.payload !== "string" &&
+      (ASYMMETRIC_ALGORITHMS as readonly string[]).includes(decoded.header.alg)
+    ) {
+      try {
+        return await this.oidc.verify(token, decoded.header, decoded.payload.iss);
+      } catch (error) {
+        throw toVerificationError(error);
+      }
+    }
+
     if (!this.SECRET) {
       throw new Error("JWT_SECRET environment variable is required");
     }
 
     try {
-      const {payload} = jwt.verify(token, Buffer.from(this.SECRET, "utf-8"), {
-        iss: this.ISSUER,
-        aud: this.AUDIENCE,
-        algorithm: "HS256",
+      const { payload } = jwt.verify(token, Buffer.from(this.SECRET, "utf-8"), {
         complete: true,
-      } as any) as { payload: jwt.JwtPayload };
+      }) as { payload: jwt.JwtPayload };
 
       return {
         id: payload.id || (payload.sub as string) || 'unknown',
@@ -47,22 +69,27 @@ export class JWTService {
         exp: payload.exp,
       };
     } catch (error) {
-      if (error instanceof jwt.TokenExpiredError) {
-        throw new Error("Token expired");
-      } else if (error instanceof jwt.JsonWebTokenError) {
-        throw new Error("Invalid token: " + error.message);
-      } else {
-        throw new Error("Token verification failed");
-      }
+      throw toVerificationError(error);
     }
   }
 }
 
-export function authenticateJWT(
+function toVerificationError(error: unknown): Error {
+  if (error instanceof jwt.TokenExpiredError) {
+    return new Error("Token expired");
+  } else if (error instanceof jwt.JsonWebTokenError) {
+    return new Error("Invalid token: " + error.message);
+  } else {
+    log.warn("Token verification failed:", error);
+    return new Error("Token verification failed");
+  }
+}
+
+export async function authenticateJWT(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const tracer = trace.getTracer("mcp-server");
   const rootSpan = tracer.startSpan("auth.authenticateJWT", {
     attributes: {
@@ -92,10 +119,14 @@ export function authenticateJWT(
         tokenLength: token.length,
       },
     }, trace.setSpan(context.active(), rootSpan));
-    const user = JWTService.verifyToken(token);
-    verifySpan.setAttribute("user.id", user.id);
-    verifySpan.setAttribute("user.role", user.role);
-    verifySpan.end();
+    let user: AuthenticatedUser;
+    try {
+      user = await JWTService.verifyToken(token);
+      verifySpan.setAttribute("user.id", user.id);
+      verifySpan.setAttribute("user.role", user.role);
+    } finally {
+      verifySpan.end();
+    }
 
     // Check if token is about to expire (within 5 minutes)
     const now = Math.floor(Date.now() / 1000);
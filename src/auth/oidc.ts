@@ -0,0 +1,242 @@
+import fs from "node:fs";
+import path from "node:path";
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { parse } from "yaml";
+import { AuthenticatedUser, Permission, UserRole } from "./authorization.js";
+import { DEFAULT_JWKS_POLICY, JwksKeySource, JwksSource } from "./jwks.js";
+
+export const DEFAULT_CLOCK_TOLERANCE_SEC = 30;
+
+export const ASYMMETRIC_ALGORITHMS = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+] as const;
+
+// Most privileged first; a token mapped to several roles gets the first.
+const ROLE_PRECEDENCE = [UserRole.ADMIN, UserRole.USER, UserRole.READONLY];
+
+// A claim value that grants a role and/or extra permissions. `claim` is a
+// claim name such as `roles`, `scp` or `groups`, or a dotted path into a
+// nested claim (`realm_access.roles`).
+const ClaimMappingSchema = z
+  .object({
+    claim: z.string().min(1),
+    value: z.string().min(1),
+    role: z.nativeEnum(UserRole).optional(),
+    permissions: z.array(z.nativeEnum(Permission)).optional(),
+  })
+  .strict()
+  .refine((mapping) => mapping.role || mapping.permissions?.length, {
+    message: "a mapping needs a role or permissions",
+  });
+
+const IssuerSchema = z
+  .object({
+    issuer: z.string().min(1),
+    audience: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    // At most one key source; without any, OIDC discovery on the issuer
+    jwksUri: z.string().url().optional(),
+    jwksFile: z.string().min(1).optional(),
+    discoveryUrl: z.string().url().optional(),
+    algorithms: z.array(z.enum(ASYMMETRIC_ALGORITHMS)).min(1).default(["RS256", "ES256"]),
+    userIdClaim: z.string().min(1).default("sub"),
+    emailClaim: z.string().min(1).default("email"),
+    // Role for tokens no mapping assigns one; such tokens are rejected otherwise
+    defaultRole: z.nativeEnum(UserRole).optional(),
+    mappings: z.array(ClaimMappingSchema).default([]),
+  })
+  .strict()
+  .refine(
+    (issuer) =>
+      [issuer.jwksUri, issuer.jwksFile, issuer.discoveryUrl].filter(Boolean).length <= 1,
+    { message: "set only one of jwksUri, jwksFile and discoveryUrl" }
+  );
+
+const AuthConfigSchema = z
+  .object({
+    clockToleranceSec: z.number().int().nonnegative().default(DEFAULT_CLOCK_TOLERANCE_SEC),
+    jwksCacheMaxAgeMs: z.number().int().positive().default(DEFAULT_JWKS_POLICY.cacheMaxAgeMs),
+    issuers: z.array(IssuerSchema).default([]),
+  })
+  .strict()
+  .superRefine((config, context) => {
+    const seen = new Set<string>();
+    config.issuers.forEach((issuer, index) => {
+      if (seen.has(issuer.issuer)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["issuers", index, "issuer"],
+          message: `Duplicate issuer "${issuer.issuer}"`,
+        });
+      }
+      seen.add(issuer.issuer);
+    });
+  });
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+export type TrustedIssuer = z.infer<typeof IssuerSchema>;
+
+// Reads AUTH_CONFIG_FILE (JSON or YAML). Without a file only HS256 tokens
+// signed with JWT_SECRET are accepted.
+export function loadAuthConfig(filePath?: string): { config: AuthConfig; baseDir: string } {
+  if (!filePath) {
+    return { config: AuthConfigSchema.parse({}), baseDir: process.cwd() };
+  }
+
+  const file = path.resolve(filePath);
+  const result = AuthConfigSchema.safeParse(parse(fs.readFileSync(file, "utf8")) ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid auth configuration in ${file}: ${issues}`);
+  }
+  return { config: result.data, baseDir: path.dirname(file) };
+}
+
+interface IssuerEntry {
+  config: TrustedIssuer;
+  keys: JwksKeySource;
+}
+
+// Verifies asymmetric tokens from the configured issuers against their
+// published signing keys and maps their claims onto gateway roles.
+export class OidcVerifier {
+  private readonly issuers = new Map<string, IssuerEntry>();
+
+  constructor(private readonly config: AuthConfig, baseDir: string) {
+    const policy = { ...DEFAULT_JWKS_POLICY, cacheMaxAgeMs: config.jwksCacheMaxAgeMs };
+    for (const issuer of config.issuers) {
+      this.issuers.set(issuer.issuer, {
+        config: issuer,
+        keys: new JwksKeySource(keySource(issuer, baseDir), policy),
+      });
+    }
+  }
+
+  async verify(token: string, header: jwt.JwtHeader, issuer: unknown): Promise<AuthenticatedUser> {
+    const entry = typeof issuer === "string" ? this.issuers.get(issuer) : undefined;
+    if (!entry) {
+      throw new jwt.JsonWebTokenError(`untrusted issuer ${String(issuer)}`);
+    }
+
+    const algorithms = entry.config.algorithms as jwt.Algorithm[];
+    if (!algorithms.includes(header.alg as jwt.Algorithm)) {
+      throw new jwt.JsonWebTokenError(`algorithm ${header.alg} is not accepted for ${issuer}`);
+    }
+
+    let key;
+    try {
+      key = await entry.keys.getKey(header.kid, header.alg);
+    } catch (error) {
+      throw new jwt.JsonWebTokenError(error instanceof Error ? error.message : String(error));
+    }
+
+    const audience = entry.config.audience;
+    const payload = jwt.verify(token, key, {
+      algorithms,
+      issuer: entry.config.issuer,
+      audience: Array.isArray(audience) ? (audience as [string, ...string[]]) : audience,
+      clockTolerance: this.config.clockToleranceSec,
+    }) as jwt.JwtPayload;
+
+    return this.toUser(entry.config, payload);
+  }
+
+  private toUser(issuer: TrustedIssuer, payload: jwt.JwtPayload): AuthenticatedUser {
+    const roles = new Set<UserRole>();
+    const permissions = new Set<Permission>();
+    for (const mapping of issuer.mappings) {
+      if (!claimValues(payload, mapping.claim).includes(mapping.value)) {
+        continue;
+      }
+      if (mapping.role) {
+        roles.add(mapping.role);
+      }
+      mapping.permissions?.forEach((permission) => permissions.add(permission));
+    }
+
+    const role = ROLE_PRECEDENCE.find((candidate) => roles.has(candidate)) ?? issuer.defaultRole;
+    if (!role) {
+      throw new jwt.JsonWebTokenError("no gateway role is mapped from the token claims");
+    }
+
+    const subject = stringClaim(payload, issuer.userIdClaim);
+    if (!subject) {
+      throw new jwt.JsonWebTokenError(`token has no ${issuer.userIdClaim} claim`);
+    }
+
+    return {
+      // Subjects are only unique per issuer; the prefix keeps sessions and
+      // quota counters of different issuers and HS256 users apart.
+      id: `${issuer.issuer}|${subject}`,
+      email: stringClaim(payload, issuer.emailClaim) ?? `user@${subject}.example`,
+      role,
+      permissions: permissions.size > 0 ? [...permissions] : undefined,
+      iat: payload.iat,
+      exp: payload.exp,
+    };
+  }
+}
+
+function keySource(issuer: TrustedIssuer, baseDir: string): JwksSource {
+  if (issuer.jwksFile) {
+    return { type: "file", path: path.resolve(baseDir, issuer.jwksFile) };
+  }
+  if (issuer.jwksUri) {
+    return { type: "uri", uri: issuer.jwksUri };
+  }
+  return {
+    type: "discovery",
+    url:
+      issuer.discoveryUrl ??
+      `${issuer.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+    issuer: issuer.issuer,
+  };
+}
+
+// Names containing dots, like URL-style claims, are tried whole before
+// being read as a path.
+function readClaim(payload: jwt.JwtPayload, claim: string): unknown {
+  if (payload[claim] !== undefined || !claim.includes(".")) {
+    return payload[claim];
+  }
+  return claim
+    .split(".")
+    .reduce<unknown>(
+      (current, segment) =>
+        current && typeof current === "object"
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      payload
+    );
+}
+
+function stringClaim(payload: jwt.JwtPayload, claim: string): string | undefined {
+  const value = readClaim(payload, claim);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Claims come as arrays (`roles`, `groups`) or space-separated strings
+// (`scp`, `scope`).
+function claimValues(payload: jwt.JwtPayload, claim: string): string[] {
+  const value = readClaim(payload, claim);
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === "string") {
+    return value.split(/\s+/).filter(Boolean);
+  }
+  if (typeof value === "number") {
+    return [String(value)];
+  }
+  return [];
+}
@@ -0,0 +1,106 @@
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Implementation-defined JSON-RPC codes (-32000 to -32099) used by the gateway.
+// -32002 matches the MCP spec's "resource not found".
+export const GatewayErrorCode = {
+  PermissionDenied: -32001,
+  ResourceNotFound: -32002,
+  CircuitOpen: -32003,
+  GatewayTimeout: -32004,
+  QuotaExceeded: -32005,
+} as const;
+
+// Errors raised by the gateway itself, as opposed to failures reported by a
+// travel server. Handlers rethrow these so the SDK sends them as JSON-RPC
+// errors against the original request id.
+export class GatewayError extends McpError {
+  constructor(code: number, message: string, data?: unknown) {
+    super(code, message, data);
+    // McpError prefixes "MCP error <code>:", which clients add again
+    this.message = message;
+    this.name = "GatewayError";
+  }
+}
+
+export class PermissionDeniedError extends GatewayError {
+  constructor(message: string) {
+    super(GatewayErrorCode.PermissionDenied, message);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+// Unknown tool, prompt or resource template, or a missing required param.
+export class InvalidParamsError extends GatewayError {
+  constructor(message: string) {
+    super(ErrorCode.InvalidParams, message);
+    this.name = "InvalidParamsError";
+  }
+}
+
+export class ResourceNotFoundError extends GatewayError {
+  constructor(readonly uri: string) {
+    super(GatewayErrorCode.ResourceNotFound, `Unknown resource: ${uri}`, { uri });
+    this.name = "ResourceNotFoundError";
+  }
+}
+
+export class GatewayTimeoutError extends GatewayError {
+  constructor(
+    readonly serverId: string,
+    readonly timeoutMs: number
+  ) {
+    super(
+      GatewayErrorCode.GatewayTimeout,
+      `Travel server "${serverId}" did not answer within ${timeoutMs}ms`,
+      { serverId, timeoutMs }
+    );
+    this.name = "GatewayTimeoutError";
+  }
+}
+
+// `data.retryAfter` is the number of seconds until the quota window resets,
+// like an HTTP Retry-After header.
+export class QuotaExceededError extends GatewayError {
+  constructor(
+    readonly policyId: string,
+    readonly limit: number,
+    readonly windowMs: number,
+    readonly retryAfter: number
+  ) {
+    super(
+      GatewayErrorCode.QuotaExceeded,
+      `Quota "${policyId}" of ${limit} calls per ${windowMs}ms exceeded; retry after ${retryAfter}s`,
+      { policy: policyId, limit, windowMs, retryAfter }
+    );
+    this.name = "QuotaExceededError";
+  }
+}
+
+export function isGatewayError(error: unknown): error is GatewayError {
+  return error instanceof GatewayError;
+}
+
+// Maps anything thrown in a handler to the McpError the client receives.
+// Upstream McpErrors keep their code; everything else is an internal error.
+export function toMcpError(error: unknown, fallbackMessage: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new McpError(ErrorCode.InternalError, `${fallbackMessage}: ${message}`);
+}
+
+// Tool execution failures are reported inside the result so the model can
+// see them and react, as the MCP spec recommends.
+export function toToolErrorResult(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: "text", text: message }],
+    isError: true,
+  };
+}
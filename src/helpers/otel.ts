@@ -2,6 +2,7 @@
 // Licensed under the MIT License.
 import {
   useAzureMonitor,
+  shutdownAzureMonitor,
   AzureMonitorOpenTelemetryOptions,
 } from "@azure/monitor-opentelemetry";
 import {
@@ -33,6 +34,8 @@ import { USER_DETAILS_ADMIN_DEMO } from "../auth/user-details-demo.js";
 import { logger } from "./logs.js";
 const log = logger("otel");
 
+let telemetryEnabled = false;
+
 export function initializeTelemetry() {
   // Filter using HTTP instrumentation configuration
   const httpInstrumentationConfig: HttpInstrumentationConfig = {
@@ -75,6 +78,7 @@ export function initializeTelemetry() {
     addSpanProcessor(options);
     addOTLPExporter(options);
     useAzureMonitor(options);
+    telemetryEnabled = true;
     log.success("Azure Monitor OpenTelemetry initialized");
     
     // Need client to be created
@@ -89,6 +93,21 @@ export function initializeTelemetry() {
   }
 }
 
+// Flushes pending spans to every exporter and shuts the SDK down.
+export async function shutdownTelemetry() {
+  if (!telemetryEnabled) {
+    return;
+  }
+
+  try {
+    await shutdownAzureMonitor();
+    telemetryEnabled = false;
+    log.success("Telemetry flushed");
+  } catch (error) {
+    log.error("Failed to flush telemetry:", error);
+  }
+}
+
 function addOpenTelemetryInstrumentation() {
   const tracerProvider = (
     trace.getTracerProvider() as ProxyTracerProvider
@@ -0,0 +1,61 @@
+const SECRET_NAME_PATTERN = /(KEY|SECRET|TOKEN|PASSWORD|CONNECTION_STRING)/i;
+const MIN_SECRET_LENGTH = 6;
+const REDACTED = "[REDACTED]";
+
+// Query parameters and headers that carry credentials, e.g. SerpAPI's
+// `api_key=` in logged request URLs.
+const INLINE_SECRET_PATTERNS = [
+  /((?:api[_-]?key|access[_-]?key|token|secret|password)=)[^&\s"']+/gi,
+  /(bearer\s+)[a-z0-9._~+/-]+=*/gi,
+];
+
+function collectSecretValues(extra: Record<string, string> = {}): string[] {
+  const values = new Set<string>();
+  for (const source of [process.env, extra]) {
+    for (const [name, value] of Object.entries(source)) {
+      if (
+        value &&
+        value.length >= MIN_SECRET_LENGTH &&
+        SECRET_NAME_PATTERN.test(name)
+      ) {
+        values.add(value);
+      }
+    }
+  }
+  // Longest first so a secret containing another is replaced whole
+  return [...values].sort((a, b) => b.length - a.length);
+}
+
+function scrubText(text: string, secrets: string[]): string {
+  let scrubbed = text;
+  for (const secret of secrets) {
+    scrubbed = scrubbed.split(secret).join(REDACTED);
+  }
+  for (const pattern of INLINE_SECRET_PATTERNS) {
+    scrubbed = scrubbed.replace(pattern, `$1${REDACTED}`);
+  }
+  return scrubbed;
+}
+
+// Redacts values of secret-looking environment variables (SERPAPI_KEY,
+// JWT_SECRET, ...) and inline credentials from strings, arrays and objects.
+export function scrubSecrets<T>(value: T, extraEnv?: Record<string, string>): T {
+  const secrets = collectSecretValues(extraEnv);
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      return scrubText(current, secrets);
+    }
+    if (Array.isArray(current)) {
+      return current.map(visit);
+    }
+    if (current && typeof current === "object") {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, nested]) => [key, visit(nested)])
+      );
+    }
+    return current;
+  };
+
+  return visit(value) as T;
+}
@@ -7,24 +7,113 @@ import { createRequire } from "node:module";
 import { trace, SpanStatusCode } from "@opentelemetry/api";
 import { StreamableHTTPServer } from "./server.js";
 import { logger } from "./helpers/logs.js";
-import { securityMiddlewares } from "./server-middlewares.js";
+import { createSecurityMiddlewares } from "./server-middlewares.js";
+import { authenticateJWT, JWTService } from "./auth/jwt.js";
+import { loadAuthConfig } from "./auth/oidc.js";
+import { requireRole, UserRole } from "./auth/authorization.js";
 import { TravelRegistry } from "./travel/registry.js";
-import { travelServerConfigs } from "./travel/config.js";
+import { loadTravelServerConfigs } from "./travel/config.js";
+import { watchGatewayConfig } from "./travel/config-file.js";
+import { ShutdownCoordinator } from "./shutdown.js";
+import {
+  CacheBackend,
+  MemoryCacheBackend,
+  ResponseCache,
+} from "./travel/response-cache.js";
+import { SqliteCacheBackend } from "./travel/sqlite-cache-backend.js";
+import { QuotaManager } from "./travel/quotas.js";
+import { createCounterStore, loadRateLimitConfig } from "./rate-limit/config.js";
 
 const MCP_ENDPOINT = "/mcp";
+const ADMIN_ENDPOINT = "/admin";
+const MCP_STATEFUL_SESSIONS = process.env.MCP_STATEFUL_SESSIONS === "true";
+const MCP_SESSION_IDLE_TIMEOUT_MS = process.env.MCP_SESSION_IDLE_TIMEOUT_MS
+  ? Number(process.env.MCP_SESSION_IDLE_TIMEOUT_MS)
+  : undefined;
+const SHUTDOWN_TIMEOUT_MS = process.env.SHUTDOWN_TIMEOUT_MS
+  ? Number(process.env.SHUTDOWN_TIMEOUT_MS)
+  : undefined;
+
+const TOOL_CACHE = process.env.TOOL_CACHE || "memory";
+const TOOL_CACHE_SQLITE_PATH = process.env.TOOL_CACHE_SQLITE_PATH || "tool-cache.db";
+const TOOL_CACHE_MAX_ENTRIES = process.env.TOOL_CACHE_MAX_ENTRIES
+  ? Number(process.env.TOOL_CACHE_MAX_ENTRIES)
+  : undefined;
 
 const log = logger("index");
-const travelRegistry = new TravelRegistry(travelServerConfigs);
+
+function createResponseCache(): ResponseCache | undefined {
+  let backend: CacheBackend;
+  switch (TOOL_CACHE) {
+    case "off":
+      return undefined;
+    case "sqlite":
+      backend = new SqliteCacheBackend(TOOL_CACHE_SQLITE_PATH);
+      break;
+    case "memory":
+      backend = new MemoryCacheBackend(TOOL_CACHE_MAX_ENTRIES);
+      break;
+    default:
+      throw new Error(`Unknown TOOL_CACHE backend "${TOOL_CACHE}"`);
+  }
+  log.info(`Tool response cache: ${backend.name}`);
+  return new ResponseCache(backend);
+}
+
 try {
+  const { config, baseDir } = loadAuthConfig(process.env.AUTH_CONFIG_FILE);
+  JWTService.configure(config, baseDir);
+  log.info(`Trusted token issuers: HS256 shared secret + ${config.issuers.length} OIDC issuer(s)`);
+} catch (error) {
+  log.error("Failed to load auth configuration:", error);
+  process.exit(1);
+}
+
+const rateLimitConfig = loadRateLimitConfig();
+const counterStore = createCounterStore(rateLimitConfig);
+
+let travelRegistry: TravelRegistry;
+try {
+  travelRegistry = new TravelRegistry(loadTravelServerConfigs(), {
+    cache: createResponseCache(),
+    quotas: new QuotaManager(counterStore),
+  });
   await travelRegistry.start();
+  for (const degraded of travelRegistry.getDegradedServers()) {
+    log.warn(`Travel server "${degraded.id}" is degraded: ${degraded.error}`);
+  }
 } catch (error) {
   log.error("Failed to start travel registry:", error);
   process.exit(1);
 }
-const server = new StreamableHTTPServer(travelRegistry);
+
+const stopConfigWatch = process.env.TRAVEL_CONFIG_FILE
+  ? watchGatewayConfig(process.env.TRAVEL_CONFIG_FILE, (configs) =>
+      travelRegistry.applyConfigs(configs)
+    )
+  : undefined;
+const server = new StreamableHTTPServer(travelRegistry, {
+  stateful: MCP_STATEFUL_SESSIONS,
+  sessionIdleTimeoutMs: MCP_SESSION_IDLE_TIMEOUT_MS,
+});
+const shutdown = new ShutdownCoordinator(server, travelRegistry, {
+  drainTimeoutMs: SHUTDOWN_TIMEOUT_MS,
+  onShutdown: async () => {
+    stopConfigWatch?.();
+    await counterStore.close();
+  },
+});
+shutdown.listen();
+
 const app = express();
 const router = express.Router();
-app.use(MCP_ENDPOINT, securityMiddlewares);
+const adminRouter = express.Router();
+app.use(
+  MCP_ENDPOINT,
+  shutdown.rejectWhenShuttingDown,
+  createSecurityMiddlewares(rateLimitConfig, counterStore)
+);
+app.use(ADMIN_ENDPOINT, authenticateJWT, requireRole(UserRole.ADMIN));
 
 const require = createRequire(import.meta.url);
 const pkg = require("../package.json");
@@ -58,6 +147,11 @@ app.get("/", (req: Request, res: Response) => {
         rss: memoryUsage.rss,
         heapUsed: memoryUsage.heapUsed,
       },
+      sessions: {
+        active: server.listSessions().length,
+        pendingInitializations: server.getPendingInitializationCount(),
+      },
+      travelServers: travelRegistry.getServerHealth(),
     };
     
     span.setAttributes({
@@ -66,6 +160,10 @@ app.get("/", (req: Request, res: Response) => {
       'health.memory_rss': memoryUsage.rss,
       'health.memory_heap_used': memoryUsage.heapUsed,
       'health.pid': process.pid,
+      'health.open_circuits': healthData.travelServers
+        .filter((entry) => entry.circuitState !== 'closed')
+        .map((entry) => entry.id)
+        .join(','),
       'http.response.status_code': 200,
     });
     
@@ -96,6 +194,156 @@ app.get("/", (req: Request, res: Response) => {
   }
 });
 
+// Liveness: the process is up and the event loop responds.
+app.get("/healthz", (req: Request, res: Response) => {
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).json({
+    status: "ok",
+    uptimeSeconds: Math.round(process.uptime()),
+  });
+});
+
+// Readiness: every required travel server is connected.
+app.get("/readyz", (req: Request, res: Response) => {
+  const tracer = trace.getTracer('http-server');
+  const span = tracer.startSpan('http.readiness_check', {
+    attributes: {
+      'http.method': req.method,
+      'http.route': '/readyz',
+    },
+  });
+
+  try {
+    const servers = travelRegistry.getServerHealth();
+    const shuttingDown = shutdown.isShuttingDown();
+    const ready = !shuttingDown && travelRegistry.isReady();
+    const statusCode = ready ? 200 : 503;
+
+    span.setAttributes({
+      'readiness.ready': ready,
+      'readiness.shutting_down': shuttingDown,
+      'readiness.servers_up': servers.filter((entry) => entry.status === 'up').length,
+      'readiness.servers_total': servers.length,
+      'http.response.status_code': statusCode,
+    });
+    span.setStatus({
+      code: ready ? SpanStatusCode.OK : SpanStatusCode.ERROR,
+      message: ready ? 'Ready' : 'Required travel servers are down',
+    });
+
+    res.setHeader("Cache-Control", "no-store");
+    res.status(statusCode).json({
+      status: shuttingDown ? "shutting_down" : ready ? "ready" : "not_ready",
+      servers: servers.map((entry) => ({
+        id: entry.id,
+        required: entry.required,
+        status: entry.status,
+        circuitState: entry.circuitState,
+        toolCount: entry.toolCount,
+        lastError: entry.lastError,
+        lastSuccessfulPingAt: entry.lastSuccessfulPingAt,
+      })),
+    });
+  } catch (error) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    log.error('Readiness check error:', error);
+    res.status(503).json({ status: "not_ready", error: 'Readiness check failed' });
+  } finally {
+    span.end();
+  }
+});
+
+adminRouter.get("/sessions", (req: Request, res: Response) => {
+  const tracer = trace.getTracer('http-server');
+  const span = tracer.startSpan('http.admin_sessions', {
+    attributes: {
+      'http.method': req.method,
+      'http.route': `${ADMIN_ENDPOINT}/sessions`,
+    },
+  });
+
+  try {
+    const sessions = server.listSessions();
+    span.setAttribute('sessions.count', sessions.length);
+    span.setStatus({ code: SpanStatusCode.OK });
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({
+      sessions,
+      pendingInitializations: server.getPendingInitializationCount(),
+    });
+  } catch (error) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    log.error('Admin sessions error:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  } finally {
+    span.end();
+  }
+});
+
+adminRouter.get("/conflicts", (req: Request, res: Response) => {
+  const tracer = trace.getTracer('http-server');
+  const span = tracer.startSpan('http.admin_conflicts', {
+    attributes: {
+      'http.method': req.method,
+      'http.route': `${ADMIN_ENDPOINT}/conflicts`,
+    },
+  });
+
+  try {
+    const conflicts = travelRegistry.getConflicts();
+    span.setAttribute('conflicts.count', conflicts.length);
+    span.setStatus({ code: SpanStatusCode.OK });
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({ conflicts });
+  } catch (error) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    log.error('Admin conflicts error:', error);
+    res.status(500).json({ error: 'Failed to list conflicts' });
+  } finally {
+    span.end();
+  }
+});
+
+adminRouter.get("/quotas", async (req: Request, res: Response) => {
+  const tracer = trace.getTracer('http-server');
+  const span = tracer.startSpan('http.admin_quotas', {
+    attributes: {
+      'http.method': req.method,
+      'http.route': `${ADMIN_ENDPOINT}/quotas`,
+    },
+  });
+
+  try {
+    const policies = travelRegistry.getQuotaPolicies();
+    const usage = await travelRegistry.getQuotaUsage();
+    span.setAttributes({
+      'quotas.policies': policies.length,
+      'quotas.counters': usage.length,
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({ policies, usage });
+  } catch (error) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    log.error('Admin quotas error:', error);
+    res.status(500).json({ error: 'Failed to list quota usage' });
+  } finally {
+    span.end();
+  }
+});
+
 router.all(MCP_ENDPOINT, async (req: Request, res: Response) => {
   const tracer = trace.getTracer('http-server');
   const span = tracer.startSpan('http.mcp_request', {
@@ -155,6 +403,7 @@ router.all(MCP_ENDPOINT, async (req: Request, res: Response) => {
   }
 });
 
+app.use(ADMIN_ENDPOINT, adminRouter);
 app.use("/", router);
 
 const PORT = process.env.PORT || 3000;
@@ -169,12 +418,16 @@ const serverSpan = tracer.startSpan('http.server_startup', {
 });
 
 try {
-  app.listen(PORT, () => {
-    log.success(`MCP Stateless Streamable HTTP Server`);
+  const httpServer = app.listen(PORT, () => {
+    log.success(
+      `MCP ${MCP_STATEFUL_SESSIONS ? "Stateful" : "Stateless"} Streamable HTTP Server`
+    );
     log.success(`MCP endpoint: http://localhost:${PORT}${MCP_ENDPOINT}`);
     log.success(`Health check: http://localhost:${PORT}/`);
+    log.success(`Liveness: http://localhost:${PORT}/healthz, readiness: http://localhost:${PORT}/readyz`);
     log.success(`Press Ctrl+C to stop the server`);
   });
+  shutdown.attach(httpServer);
 } catch (error) {
   serverSpan.addEvent('server.startup_error', {
     'error.message': error instanceof Error ? error.message : String(error),
@@ -188,53 +441,3 @@ try {
 } finally {
   serverSpan.end();
 }
-
-process.on("SIGINT", async () => {
-  const shutdownSpan = tracer.startSpan('http.server_shutdown', {
-    attributes: {
-      'shutdown.signal': 'SIGINT',
-      'server.uptime_seconds': Math.round(process.uptime()),
-    },
-  });
-  
-  try {
-    log.error("Shutting down server...");
-    
-    shutdownSpan.addEvent('shutdown.started', {
-      'uptime_seconds': Math.round(process.uptime()),
-    });
-    
-    const shutdownStart = Date.now();
-    await server.close();
-    const shutdownTime = Date.now() - shutdownStart;
-    
-    shutdownSpan.setAttributes({
-      'shutdown.success': true,
-      'shutdown.time_ms': shutdownTime,
-    });
-    
-    shutdownSpan.addEvent('shutdown.completed', {
-      'shutdown_time_ms': shutdownTime,
-    });
-    
-    shutdownSpan.setStatus({
-      code: SpanStatusCode.OK,
-      message: 'Server shutdown completed',
-    });
-    
-    log.success('Server shutdown completed successfully');
-    process.exit(0);
-  } catch (error) {
-    shutdownSpan.addEvent('shutdown.error', {
-      'error.message': error instanceof Error ? error.message : String(error),
-    });
-    shutdownSpan.setStatus({
-      code: SpanStatusCode.ERROR,
-      message: error instanceof Error ? error.message : String(error),
-    });
-    log.error('Error during shutdown:', error);
-    process.exit(1);
-  } finally {
-    shutdownSpan.end();
-  }
-});
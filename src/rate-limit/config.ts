@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { logger } from "../helpers/logs.js";
+import { CounterStore, MemoryCounterStore } from "./store.js";
+import { SqliteCounterStore } from "./sqlite-store.js";
+import { RedisCounterStore } from "./redis-store.js";
+
+const log = logger("rate-limit");
+
+const RateLimitEnvSchema = z.object({
+  RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(15 * 60 * 1000),
+  RATE_LIMIT_MAX: z.coerce.number().int().nonnegative().default(100),
+  RATE_LIMIT_STORE: z.enum(["memory", "sqlite", "redis"]).default("memory"),
+  RATE_LIMIT_SQLITE_PATH: z.string().min(1).default("rate-limit.db"),
+  RATE_LIMIT_REDIS_URL: z
+    .string()
+    .regex(/^rediss?:\/\//, "must be a redis:// or rediss:// URL")
+    .default("redis://localhost:6379"),
+});
+
+export interface RateLimitConfig {
+  windowMs: number;
+  // Requests each client IP may make to the MCP endpoint per window; 0
+  // turns the limiter off.
+  max: number;
+  store: "memory" | "sqlite" | "redis";
+  sqlitePath: string;
+  redisUrl: string;
+}
+
+export function loadRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  const parsed = RateLimitEnvSchema.safeParse(env);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid rate limit configuration: ${issues}`);
+  }
+
+  const values = parsed.data;
+  return {
+    windowMs: values.RATE_LIMIT_WINDOW_MS,
+    max: values.RATE_LIMIT_MAX,
+    store: values.RATE_LIMIT_STORE,
+    sqlitePath: values.RATE_LIMIT_SQLITE_PATH,
+    redisUrl: values.RATE_LIMIT_REDIS_URL,
+  };
+}
+
+// One store backs both the HTTP rate limiter and tool quotas.
+export function createCounterStore(config: RateLimitConfig): CounterStore {
+  let store: CounterStore;
+  switch (config.store) {
+    case "sqlite":
+      store = new SqliteCounterStore(config.sqlitePath);
+      break;
+    case "redis":
+      store = new RedisCounterStore(config.redisUrl);
+      break;
+    default:
+      store = new MemoryCounterStore();
+  }
+  log.info(`Counter store: ${store.name}`);
+  return store;
+}
@@ -0,0 +1,31 @@
+import type { Options, Store } from "express-rate-limit";
+import type { CounterStore } from "./store.js";
+
+// Lets express-rate-limit count hits in a shared CounterStore instead of
+// its per-process MemoryStore.
+export class CounterRateLimitStore implements Store {
+  readonly localKeys: boolean;
+  readonly prefix = "http:";
+  private windowMs = 60 * 1000;
+
+  constructor(private readonly store: CounterStore) {
+    this.localKeys = store.name === "memory";
+  }
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string) {
+    const counter = await this.store.increment(this.prefix + key, this.windowMs);
+    return { totalHits: counter.count, resetTime: new Date(counter.resetAt) };
+  }
+
+  async decrement(key: string) {
+    await this.store.decrement(this.prefix + key);
+  }
+
+  async resetKey(key: string) {
+    await this.store.reset(this.prefix + key);
+  }
+}
@@ -0,0 +1,97 @@
+import { RespClient, RespValue } from "./resp-client.js";
+import { Counter, CounterStore, windowEnd } from "./store.js";
+
+const KEY_NAMESPACE = "mcp-gateway:";
+const SCAN_BATCH = 200;
+
+// Decrements a live, positive counter in one step. DECR keeps the TTL, and
+// a key that expired is never recreated without one.
+export const DECREMENT_SCRIPT = `
+if redis.call("PTTL", KEYS[1]) > 0 and tonumber(redis.call("GET", KEYS[1])) > 0 then
+  return redis.call("DECR", KEYS[1])
+end
+return nil
+`;
+
+// Counters shared by every replica through Redis or anything speaking its
+// protocol. Keys expire with their window, so Redis does the pruning.
+export class RedisCounterStore implements CounterStore {
+  readonly name = "redis";
+  private readonly client: RespClient;
+
+  constructor(url: string) {
+    this.client = new RespClient(new URL(url));
+  }
+
+  async increment(key: string, windowMs: number) {
+    const resetAt = windowEnd(Date.now(), windowMs);
+    const name = KEY_NAMESPACE + key;
+
+    // SET NX starts the window; MULTI keeps another replica from
+    // incrementing a key that expires between the two commands.
+    const replies = (
+      await this.client.pipeline([
+        ["MULTI"],
+        ["SET", name, 0, "PXAT", resetAt, "NX"],
+        ["INCR", name],
+        ["PTTL", name],
+        ["EXEC"],
+      ])
+    )[4] as RespValue[];
+
+    const count = Number(replies[1]);
+    const ttl = Number(replies[2]);
+    return {
+      key,
+      count,
+      resetAt: ttl > 0 ? Date.now() + ttl : resetAt,
+    };
+  }
+
+  async decrement(key: string) {
+    await this.client.command("EVAL", DECREMENT_SCRIPT, 1, KEY_NAMESPACE + key);
+  }
+
+  async reset(key: string) {
+    await this.client.command("DEL", KEY_NAMESPACE + key);
+  }
+
+  async list(prefix: string) {
+    const counters: Counter[] = [];
+    let cursor = "0";
+    do {
+      const [nextCursor, names] = (await this.client.command(
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${escapeGlob(KEY_NAMESPACE + prefix)}*`,
+        "COUNT",
+        SCAN_BATCH
+      )) as [string, string[]];
+      cursor = nextCursor;
+
+      for (const name of names) {
+        const [value, ttl] = await this.client.pipeline([
+          ["GET", name],
+          ["PTTL", name],
+        ]);
+        if (value !== null && Number(ttl) > 0) {
+          counters.push({
+            key: name.slice(KEY_NAMESPACE.length),
+            count: Number(value),
+            resetAt: Date.now() + Number(ttl),
+          });
+        }
+      }
+    } while (cursor !== "0");
+    return counters;
+  }
+
+  async close() {
+    await this.client.close();
+  }
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,261 @@
+import net from "node:net";
+import tls from "node:tls";
+import { logger } from "../helpers/logs.js";
+
+const log = logger("resp-client");
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+interface Pending {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Replies arrive in command order, so each socket keeps its own queue.
+interface Connection {
+  socket: net.Socket;
+  buffer: Buffer;
+  pending: Pending[];
+  closed: boolean;
+}
+
+// A minimal RESP2 client: enough for the counter store, and nothing a Redis
+// stand-in (Valkey, Garnet, a local fake) would not speak. Commands are
+// pipelined on one connection, which is reopened on the next command after
+// it drops. A command without a reply in time drops the connection, so a
+// stalled server fails callers instead of hanging them.
+export class RespClient {
+  private connection: Connection | null = null;
+  private connecting: Promise<Connection> | null = null;
+
+  constructor(
+    private readonly url: URL,
+    private readonly connectTimeoutMs = 5000,
+    private readonly commandTimeoutMs = 2000
+  ) {}
+
+  async command(...args: (string | number)[]): Promise<RespValue> {
+    const connection = await this.connect();
+    return this.send(connection, args);
+  }
+
+  // Writes the commands back to back, so no other caller's command can land
+  // between them (as MULTI ... EXEC requires).
+  async pipeline(commands: (string | number)[][]): Promise<RespValue[]> {
+    const connection = await this.connect();
+    return Promise.all(commands.map((args) => this.send(connection, args)));
+  }
+
+  async close() {
+    const connection = this.connection;
+    this.connection = null;
+    this.connecting = null;
+    if (connection && !connection.closed) {
+      await new Promise<void>((resolve) => connection.socket.end(resolve));
+    }
+  }
+
+  private send(connection: Connection, args: (string | number)[]): Promise<RespValue> {
+    if (connection.closed || connection.socket.destroyed) {
+      return Promise.reject(new Error("Connection closed"));
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () =>
+          this.fail(
+            connection,
+            new Error(`No reply to ${args[0]} within ${this.commandTimeoutMs}ms`)
+          ),
+        this.commandTimeoutMs
+      );
+      connection.pending.push({ resolve, reject, timer });
+      connection.socket.write(encode(args));
+    });
+  }
+
+  private connect(): Promise<Connection> {
+    if (this.connection && !this.connection.closed) {
+      return Promise.resolve(this.connection);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<Connection> {
+    const secure = this.url.protocol === "rediss:";
+    const port = Number(this.url.port || 6379);
+    const host = this.url.hostname || "localhost";
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const candidate = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const timer = setTimeout(() => {
+        candidate.destroy();
+        reject(new Error(`Timed out connecting to ${host}:${port}`));
+      }, this.connectTimeoutMs);
+      candidate.once(secure ? "secureConnect" : "connect", () => {
+        clearTimeout(timer);
+        resolve(candidate);
+      });
+      candidate.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    const connection: Connection = {
+      socket,
+      buffer: Buffer.alloc(0),
+      pending: [],
+      closed: false,
+    };
+    socket.setNoDelay(true);
+    socket.on("data", (chunk) => this.onData(connection, chunk));
+    socket.on("error", (error) => log.warn(`Connection error: ${error.message}`));
+    socket.on("close", () => this.fail(connection, new Error("Connection closed")));
+
+    try {
+      const password = decodeURIComponent(this.url.password);
+      if (password) {
+        const username = decodeURIComponent(this.url.username);
+        await this.send(
+          connection,
+          username ? ["AUTH", username, password] : ["AUTH", password]
+        );
+      }
+      const database = this.url.pathname.replace(/^\//, "");
+      if (database) {
+        await this.send(connection, ["SELECT", database]);
+      }
+    } catch (error) {
+      this.fail(connection, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+
+    this.connection = connection;
+    return connection;
+  }
+
+  // Drops the connection and rejects everything still waiting on it.
+  private fail(connection: Connection, error: Error) {
+    if (connection.closed) {
+      return;
+    }
+    connection.closed = true;
+    if (this.connection === connection) {
+      this.connection = null;
+    }
+    connection.socket.destroy();
+    for (const entry of connection.pending.splice(0)) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+  }
+
+  private onData(connection: Connection, chunk: Buffer) {
+    connection.buffer = Buffer.concat([connection.buffer, chunk]);
+    while (connection.pending.length > 0) {
+      let parsed: Parsed;
+      try {
+        parsed = parse(connection.buffer, 0);
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        log.warn(failure.message);
+        this.fail(connection, failure);
+        return;
+      }
+      if (!parsed) {
+        return;
+      }
+      connection.buffer = connection.buffer.subarray(parsed.offset);
+      const entry = connection.pending.shift()!;
+      clearTimeout(entry.timer);
+      if (parsed.value instanceof RespError) {
+        entry.reject(parsed.value);
+      } else {
+        entry.resolve(parsed.value);
+      }
+    }
+  }
+}
+
+function encode(args: (string | number)[]): Buffer {
+  const parts = args.map((arg) => {
+    const value = Buffer.from(String(arg));
+    return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from("\r\n")]);
+  });
+  return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts]);
+}
+
+type Parsed = { value: RespValue | RespError; offset: number } | null;
+
+// Returns null until the buffer holds a complete reply.
+function parse(buffer: Buffer, start: number): Parsed {
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd === -1) {
+    return null;
+  }
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new RespError(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      let failure: RespError | undefined;
+      let offset = next;
+      for (let index = 0; index < count; index++) {
+        const item = parse(buffer, offset);
+        if (!item) {
+          return null;
+        }
+        offset = item.offset;
+        // An error inside an EXEC reply fails the whole reply
+        if (item.value instanceof RespError) {
+          failure ??= item.value;
+        } else {
+          items.push(item.value);
+        }
+      }
+      return { value: failure ?? items, offset };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type "${type}"`);
+  }
+}
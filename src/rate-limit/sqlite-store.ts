@@ -0,0 +1,80 @@
+import Database from "better-sqlite3";
+import { Counter, CounterStore, windowEnd } from "./store.js";
+
+// Keeps counters across restarts; replicas mounting the same volume share
+// them.
+export class SqliteCounterStore implements CounterStore {
+  readonly name = "sqlite";
+  private readonly db: Database.Database;
+  private readonly incrementTransaction: Database.Transaction<
+    (key: string, windowMs: number) => Counter
+  >;
+  private readonly decrementStatement: Database.Statement;
+  private readonly resetStatement: Database.Statement;
+  private readonly listStatement: Database.Statement;
+  private readonly pruneStatement: Database.Statement;
+
+  constructor(filePath: string) {
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    // Other replicas may hold the write lock briefly
+    this.db.pragma("busy_timeout = 5000");
+    this.db
+      .prepare(
+        `CREATE TABLE IF NOT EXISTS counters (
+          key TEXT PRIMARY KEY,
+          count INTEGER NOT NULL,
+          reset_at INTEGER NOT NULL
+        )`
+      )
+      .run();
+
+    const select = this.db.prepare(
+      "SELECT count, reset_at AS resetAt FROM counters WHERE key = ?"
+    );
+    const upsert = this.db.prepare(
+      "INSERT OR REPLACE INTO counters (key, count, reset_at) VALUES (?, ?, ?)"
+    );
+    this.incrementTransaction = this.db.transaction((key: string, windowMs: number) => {
+      const now = Date.now();
+      const row = select.get(key) as { count: number; resetAt: number } | undefined;
+      const counter =
+        row && row.resetAt > now
+          ? { key, count: row.count + 1, resetAt: row.resetAt }
+          : { key, count: 1, resetAt: windowEnd(now, windowMs) };
+      upsert.run(key, counter.count, counter.resetAt);
+      return counter;
+    });
+
+    this.decrementStatement = this.db.prepare(
+      "UPDATE counters SET count = count - 1 WHERE key = ? AND count > 0"
+    );
+    this.resetStatement = this.db.prepare("DELETE FROM counters WHERE key = ?");
+    this.listStatement = this.db.prepare(
+      "SELECT key, count, reset_at AS resetAt FROM counters WHERE substr(key, 1, ?) = ?"
+    );
+    this.pruneStatement = this.db.prepare("DELETE FROM counters WHERE reset_at <= ?");
+  }
+
+  async increment(key: string, windowMs: number) {
+    // IMMEDIATE takes the write lock up front so replicas cannot interleave
+    return this.incrementTransaction.immediate(key, windowMs);
+  }
+
+  async decrement(key: string) {
+    this.decrementStatement.run(key);
+  }
+
+  async reset(key: string) {
+    this.resetStatement.run(key);
+  }
+
+  async list(prefix: string) {
+    this.pruneStatement.run(Date.now());
+    return this.listStatement.all(prefix.length, prefix) as Counter[];
+  }
+
+  async close() {
+    this.db.close();
+  }
+}
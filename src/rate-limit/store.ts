@@ -0,0 +1,66 @@
+// Fixed-window hit counters shared by the HTTP rate limiter and tool quotas.
+// Windows are aligned to the epoch so every replica agrees on resets.
+export interface Counter {
+  key: string;
+  count: number;
+  resetAt: number;
+}
+
+export interface CounterStore {
+  readonly name: string;
+  increment(key: string, windowMs: number): Promise<Counter>;
+  decrement(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+  // Live counters whose key starts with `prefix`
+  list(prefix: string): Promise<Counter[]>;
+  close(): Promise<void>;
+}
+
+export function windowEnd(now: number, windowMs: number): number {
+  return (Math.floor(now / windowMs) + 1) * windowMs;
+}
+
+// Per replica only; use the SQLite or Redis store once the gateway scales out.
+export class MemoryCounterStore implements CounterStore {
+  readonly name = "memory";
+  private readonly counters = new Map<string, Counter>();
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      counter = { key, count: 0, resetAt: windowEnd(now, windowMs) };
+      this.counters.set(key, counter);
+    }
+    counter.count++;
+    return { ...counter };
+  }
+
+  async decrement(key: string) {
+    const counter = this.counters.get(key);
+    if (counter && counter.count > 0) {
+      counter.count--;
+    }
+  }
+
+  async reset(key: string) {
+    this.counters.delete(key);
+  }
+
+  async list(prefix: string) {
+    const now = Date.now();
+    const live: Counter[] = [];
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      } else if (key.startsWith(prefix)) {
+        live.push({ ...counter });
+      }
+    }
+    return live;
+  }
+
+  async close() {
+    this.counters.clear();
+  }
+}
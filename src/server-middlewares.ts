@@ -7,72 +7,77 @@ import express, { NextFunction, Request, Response } from "express";
 import { trace, SpanStatusCode } from "@opentelemetry/api";
 import { authenticateJWT } from "./auth/jwt.js";
 import { logger } from "./helpers/logs.js";
+import type { RateLimitConfig } from "./rate-limit/config.js";
+import { CounterRateLimitStore } from "./rate-limit/express-store.js";
+import type { CounterStore } from "./rate-limit/store.js";
 
 const log = logger("middleware");
 
-// Middleware to limite the number of requests from a single IP address
-const rateLimiterMiddleware = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: {
-    error: "Too many requests from this IP",
-    retryAfter: 900, // 15 minutes in seconds
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  // OpenAI API uses X-Forwarded-For header to pass the original client IP
-  // We need to disable the validation of this header otherwise it will reject requests
-  validate: { xForwardedForHeader: false },
-  handler: (req: Request, res: Response, next: NextFunction, options) => {
-    
-    log.info("headers",{ ...req.headers });
-    log.info("ip", (req as any).ip);
-    log.info("user-agent", req.get("user-agent"));
-    log.info("request.url", req.originalUrl);
+// Limits the number of requests from a single IP address. Hits are counted
+// in the shared counter store so every replica enforces the same budget.
+function createRateLimiterMiddleware(config: RateLimitConfig, store: CounterStore) {
+  const retryAfter = Math.round(config.windowMs / 1000);
 
-    const tracer = trace.getTracer("rate_limiter");
-    const span = tracer.startSpan("middleware.rate_limiter", {
-      attributes: {
-        "request.method": (req as any).method || "unknown",
-        "request.url":
-          (req as any).originalUrl || (req as any).url || "unknown",
-        "rate_limiter.max_requests": (options.limit as number) || 100,
-        "rate_limiter.window_ms": options.windowMs || 900000,
-      },
-    });
-    try {
-      span.addEvent("rate_limiter.request_blocked", {
-        "rate_limiter.message": options.message
-          ? JSON.stringify(options.message)
-          : "Too many requests",
-      });
-      span.setStatus({
-        code: SpanStatusCode.ERROR,
-        message: "Too many requests from this IP",
-      });
-      log.warn("Rate limit exceeded", { ip: (req as any).ip });
-      (res as any).status(429).json(
-        options.message || {
-          error: "Too many requests from this IP",
-          retryAfter: Math.round((options.windowMs || 900000) / 1000),
-        }
-      );
-    } catch (error) {
-      span.addEvent("rate_limiter.handler_error", {
-        "error.message": error instanceof Error ? error.message : String(error),
-      });
-      span.setStatus({
-        code: SpanStatusCode.ERROR,
-        message: error instanceof Error ? error.message : String(error),
-      });
-      throw error;
-    } finally {
-      span.end();
-    }
+  return rateLimit({
+    windowMs: config.windowMs,
+    limit: config.max,
+    store: new CounterRateLimitStore(store),
+    // A store outage must not take the gateway down with it
+    passOnStoreError: true,
+    message: {
+      error: "Too many requests from this IP",
+      retryAfter,
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    // OpenAI API uses X-Forwarded-For header to pass the original client IP
+    // We need to disable the validation of this header otherwise it will reject requests
+    validate: { xForwardedForHeader: false },
+    handler: (req: Request, res: Response, next: NextFunction, options) => {
 
-    next();
-  },
-});
+      log.info("headers",{ ...req.headers });
+      log.info("ip", (req as any).ip);
+      log.info("user-agent", req.get("user-agent"));
+      log.info("request.url", req.originalUrl);
+
+      const tracer = trace.getTracer("rate_limiter");
+      const span = tracer.startSpan("middleware.rate_limiter", {
+        attributes: {
+          "request.method": (req as any).method || "unknown",
+          "request.url":
+            (req as any).originalUrl || (req as any).url || "unknown",
+          "rate_limiter.max_requests": options.limit as number,
+          "rate_limiter.window_ms": options.windowMs,
+          "rate_limiter.store": store.name,
+        },
+      });
+      try {
+        span.addEvent("rate_limiter.request_blocked", {
+          "rate_limiter.message": options.message
+            ? JSON.stringify(options.message)
+            : "Too many requests",
+        });
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Too many requests from this IP",
+        });
+        log.warn("Rate limit exceeded", { ip: (req as any).ip });
+        (res as any).status(options.statusCode).json(options.message);
+      } catch (error) {
+        span.addEvent("rate_limiter.handler_error", {
+          "error.message": error instanceof Error ? error.message : String(error),
+        });
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  });
+}
 
 // CORS configuration
 const corsMiddleware = cors({
@@ -80,7 +85,14 @@ const corsMiddleware = cors({
   credentials: true,
   optionsSuccessStatus: 200,
   methods: ["GET", "POST", "PUT", "DELETE"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: [
+    "Content-Type",
+    "Authorization",
+    "Mcp-Session-Id",
+    "Mcp-Protocol-Version",
+    "Last-Event-ID",
+  ],
+  exposedHeaders: ["Mcp-Session-Id"],
 });
 
 // Helmet middleware for security
@@ -173,8 +185,15 @@ const urlencodedMiddleware = express.urlencoded({
 });
 
 // Middleware to handle request timeouts
+const requestTimeout = timeout("30s");
 const timeoutMiddleware = [
-  timeout("30s"),
+  (req: Request, res: Response, next: NextFunction) => {
+    // GET opens a long-lived SSE stream in stateful session mode
+    if (req.method === "GET") {
+      return next();
+    }
+    requestTimeout(req, res, next);
+  },
   (req: Request, res: Response, next: NextFunction) => {
     const tracer = trace.getTracer("middleware");
     const span = tracer.startSpan("middleware.timeout_check", {
@@ -294,14 +313,19 @@ const validationMiddleware = [
   },
 ];
 
-export const securityMiddlewares = [
+export const createSecurityMiddlewares = (
+  rateLimitConfig: RateLimitConfig,
+  counterStore: CounterStore
+) => [
   authenticateJWT,
   corsMiddleware,
   helmetMiddleware,
   ...jsonMiddleware,
   urlencodedMiddleware,
   ...timeoutMiddleware,
-  rateLimiterMiddleware,
+  ...(rateLimitConfig.max > 0
+    ? [createRateLimiterMiddleware(rateLimitConfig, counterStore)]
+    : []),
 
   // Optional:
   // ...validationMiddleware,
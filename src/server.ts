@@ -2,16 +2,26 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
+  CompleteRequest,
+  CompleteRequestSchema,
+  CreateMessageResultSchema,
+  ElicitResultSchema,
   GetPromptRequestSchema,
   JSONRPCError,
   JSONRPCNotification,
   ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  McpError,
   LoggingMessageNotification,
   Notification,
   ReadResourceRequestSchema,
   SetLevelRequestSchema,
+  InitializeRequest,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   context,
@@ -25,42 +35,129 @@ import { Request, Response } from "express";
 import { randomUUID } from "node:crypto";
 import {
   AuthenticatedUser,
+  getAuthenticatedUser,
   hasPermission,
   Permission,
+  toAuthInfo,
+  UserRole,
 } from "./auth/authorization.js";
+import { TransportsCache } from "./helpers/cache.js";
 import { logger } from "./helpers/logs.js";
-import { TravelRegistry } from "./travel/registry.js";
+import { ServerLogEntry, TravelRegistry } from "./travel/registry.js";
+import { GatewayCompleter } from "./travel/completions.js";
+import {
+  InvalidParamsError,
+  isGatewayError,
+  PermissionDeniedError,
+  toMcpError,
+  toToolErrorResult,
+} from "./errors.js";
 
 const log = logger("server");
 const JSON_RPC = "2.0";
 const JSON_RPC_ERROR = -32603;
 const SUPPORTED_VERSIONS = ["2025-03-26", "2025-06-18"];
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const HANDSHAKE_TIMEOUT_MS = 30 * 1000;
+const LOG_LEVEL_SEVERITY = new Map(
+  LoggingLevelSchema.options.map((level, index) => [level, index])
+);
+
+export interface StreamableHTTPServerOptions {
+  // Issue Mcp-Session-Id headers and keep one transport per session.
+  stateful?: boolean;
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  clientName: string;
+  clientVersion: string;
+  protocolVersion: string;
+  userId: string;
+  connectedAt: string;
+  initializedAt?: string;
+  lastSeenAt: string;
+}
+
+interface SessionEntry {
+  server: Server;
+  lastSeenAt: number;
+  connectedAt: number;
+  initializedAt?: number;
+  protocolVersion: string;
+  clientInfo?: { name: string; version: string };
+  userId: string;
+  role?: UserRole;
+  // Responses still streaming, such as the standalone GET stream; the
+  // session is not idle while any is open.
+  openResponses: number;
+  // Set by logging/setLevel; travel server logs are only forwarded once set.
+  logLevel?: LoggingLevel;
+}
+
+interface PendingInitialization {
+  sessionId: string;
+  protocolVersion: string;
+  clientInfo?: { name: string; version: string };
+  createdAt: number;
+  timeoutId?: NodeJS.Timeout;
+}
 
 export class StreamableHTTPServer {
   server: Server;
-  private currentUser: AuthenticatedUser | null = null;
-  private pendingInitializations = new Map<
-    string,
-    {
-      sessionId: string;
-      protocolVersion: string;
-      clientInfo?: { name: string; version: string };
-      createdAt: number;
-      timeoutId?: NodeJS.Timeout;
+  private readonly stateful: boolean;
+  private readonly sessionIdleTimeoutMs: number;
+  private readonly sessions = new Map<string, SessionEntry>();
+  private sessionSweeper?: NodeJS.Timeout;
+  private pendingInitializations = new Map<string, PendingInitialization>();
+  private readonly completer = new GatewayCompleter();
+
+  constructor(
+    private readonly registry: TravelRegistry,
+    options: StreamableHTTPServerOptions = {}
+  ) {
+    this.stateful = options.stateful ?? false;
+    this.sessionIdleTimeoutMs =
+      options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+    this.server = this.createServer();
+
+    this.registry.on("toolListChanged", () =>
+      this.broadcastListChanged("tools")
+    );
+    this.registry.on("resourceListChanged", () =>
+      this.broadcastListChanged("resources")
+    );
+    this.registry.on("promptListChanged", () =>
+      this.broadcastListChanged("prompts")
+    );
+    this.registry.on("serverLog", (entry: ServerLogEntry) =>
+      this.forwardServerLog(entry)
+    );
+
+    if (this.stateful) {
+      this.sessionSweeper = setInterval(
+        () => this.expireIdleSessions(),
+        SESSION_SWEEP_INTERVAL_MS
+      );
+      this.sessionSweeper.unref();
     }
-  >();
+  }
 
-  constructor(private readonly registry: TravelRegistry) {
-    this.server = new Server(
+  private createServer(getSessionId: () => string | undefined = () => undefined): Server {
+    const server = new Server(
       {
         name: "todo-http-server",
         version: "1.0.0",
       },
       {
         capabilities: {
-          tools: {},
-          resources: {},
-          prompts: {},
+          tools: { listChanged: true },
+          resources: { listChanged: true },
+          prompts: { listChanged: true },
+          completions: {},
           logging: {
             level: "info",
           },
@@ -68,92 +165,100 @@ export class StreamableHTTPServer {
       }
     );
 
-    // Set up the oninitialized callback
-    this.server.oninitialized = () => {
-      const tracer = trace.getTracer("mcp-server");
-      const span = tracer.startSpan("server.oninitialized");
+    server.oninitialized = () => this.handleInitialized(getSessionId());
+    this.setupServerRequestHandlers(server);
+    return server;
+  }
 
-      try {
-        // Find and mark the most recent pending initialization as completed
-        let completedSession: string | null = null;
-        let sessionInfo: any = null;
+  private handleInitialized(boundSessionId?: string) {
+    const tracer = trace.getTracer("mcp-server");
+    const span = tracer.startSpan("server.oninitialized");
+
+    try {
+      let completedSession: string | null = null;
+      let sessionInfo: PendingInitialization | null = null;
 
+      if (boundSessionId && this.pendingInitializations.has(boundSessionId)) {
+        completedSession = boundSessionId;
+        sessionInfo = this.pendingInitializations.get(boundSessionId)!;
+      } else {
+        // Stateless requests carry no session id, so fall back to the most
+        // recent pending initialization
         for (const [sessionId, info] of this.pendingInitializations.entries()) {
-          if (
-            !completedSession ||
-            info.createdAt >
-              this.pendingInitializations.get(completedSession)!.createdAt
-          ) {
+          if (!sessionInfo || info.createdAt > sessionInfo.createdAt) {
             completedSession = sessionId;
             sessionInfo = info;
           }
         }
+      }
 
-        if (completedSession && sessionInfo) {
-          // Clear the timeout
-          if (sessionInfo.timeoutId) {
-            clearTimeout(sessionInfo.timeoutId);
-          }
+      if (completedSession && sessionInfo) {
+        // Clear the timeout
+        if (sessionInfo.timeoutId) {
+          clearTimeout(sessionInfo.timeoutId);
+        }
 
-          const initializationTime = Date.now() - sessionInfo.createdAt;
+        const initializationTime = Date.now() - sessionInfo.createdAt;
 
-          span.setAttributes({
-            "session.id": completedSession,
-            "session.initialization_time_ms": initializationTime,
-            "protocol.version": sessionInfo.protocolVersion,
-            "client.name": sessionInfo.clientInfo?.name || "unknown",
-            "client.version": sessionInfo.clientInfo?.version || "unknown",
-          });
+        span.setAttributes({
+          "session.id": completedSession,
+          "session.initialization_time_ms": initializationTime,
+          "protocol.version": sessionInfo.protocolVersion,
+          "client.name": sessionInfo.clientInfo?.name || "unknown",
+          "client.version": sessionInfo.clientInfo?.version || "unknown",
+        });
 
-          span.addEvent("session.initialized", {
-            "session.id": completedSession,
-            initialization_time_ms: initializationTime,
-            "protocol.version": sessionInfo.protocolVersion,
-          });
+        span.addEvent("session.initialized", {
+          "session.id": completedSession,
+          initialization_time_ms: initializationTime,
+          "protocol.version": sessionInfo.protocolVersion,
+        });
 
-          log.success(
-            `✅ Session ${completedSession} (${
-              sessionInfo.clientInfo?.name || "unknown"
-            }@${
-              sessionInfo.clientInfo?.version || "unknown"
-            }) initialized successfully (${initializationTime}ms). Protocol: ${
-              sessionInfo.protocolVersion
-            }`
-          );
+        log.success(
+          `✅ Session ${completedSession} (${
+            sessionInfo.clientInfo?.name || "unknown"
+          }@${
+            sessionInfo.clientInfo?.version || "unknown"
+          }) initialized successfully (${initializationTime}ms). Protocol: ${
+            sessionInfo.protocolVersion
+          }`
+        );
 
-          // Remove from pending
-          this.pendingInitializations.delete(completedSession);
+        // Remove from pending
+        this.pendingInitializations.delete(completedSession);
 
-          span.setStatus({
-            code: SpanStatusCode.OK,
-            message: "Initialization completed successfully",
-          });
-        } else {
-          log.warn(
-            "⚠️  oninitialized callback fired but no pending initialization found"
-          );
-          span.addEvent("session.not_found");
-          span.setStatus({
-            code: SpanStatusCode.ERROR,
-            message: "No pending initialization found",
-          });
+        const session = this.sessions.get(completedSession);
+        if (session) {
+          session.initializedAt = Date.now();
         }
-      } catch (error) {
-        span.addEvent("initialized.error", {
-          "error.message":
-            error instanceof Error ? error.message : String(error),
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "Initialization completed successfully",
         });
+      } else {
+        log.warn(
+          "⚠️  oninitialized callback fired but no pending initialization found"
+        );
+        span.addEvent("session.not_found");
         span.setStatus({
           code: SpanStatusCode.ERROR,
-          message: error instanceof Error ? error.message : String(error),
+          message: "No pending initialization found",
         });
-        log.error("Error in oninitialized callback:", error);
-      } finally {
-        span.end();
       }
-    };
-
-    this.setupServerRequestHandlers();
+    } catch (error) {
+      span.addEvent("initialized.error", {
+        "error.message":
+          error instanceof Error ? error.message : String(error),
+      });
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      log.error("Error in oninitialized callback:", error);
+    } finally {
+      span.end();
+    }
   }
 
   private getToolRequiredPermissions(toolName: string): Permission[] {
@@ -207,6 +312,13 @@ export class StreamableHTTPServer {
       span.addEvent("server.closing_started");
 
       const closeStart = Date.now();
+      if (this.sessionSweeper) {
+        clearInterval(this.sessionSweeper);
+        this.sessionSweeper = undefined;
+      }
+      for (const sessionId of [...this.sessions.keys()]) {
+        await this.closeSession(sessionId, "server_shutdown");
+      }
       await this.registry.shutdown();
       await this.server.close();
       const closeTime = Date.now() - closeStart;
@@ -247,10 +359,35 @@ export class StreamableHTTPServer {
       req.body || "{}"
     );
 
-    // Extract user from request (set by authentication middleware)
-    this.currentUser = (req as any).user as AuthenticatedUser;
+    // Attach the user (set by authentication middleware) to this request only;
+    // the SDK hands it back to each handler as `extra.authInfo`.
+    const user = (req as any).user as AuthenticatedUser | undefined;
+    if (user) {
+      const authHeader = req.headers.authorization;
+      const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : "";
+      (req as any).auth = toAuthInfo(user, token);
+
+      // Aborted when the client goes away before its response is complete so
+      // running tool calls are cancelled upstream as well.
+      const disconnect = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) {
+          disconnect.abort(new Error("Client disconnected"));
+        }
+      });
+      (req as any).auth.extra.disconnectSignal = disconnect.signal;
+    }
 
     try {
+      if (this.stateful) {
+        await this.handleStatefulRequest(req, res);
+        return;
+      }
+
+      if (req.method === "POST" && isInitializeRequest(req.body)) {
+        this.trackInitialization(randomUUID(), req.body);
+      }
+
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined,
       });
@@ -265,10 +402,9 @@ export class StreamableHTTPServer {
         log.success("Request closed by client");
         transport.close();
         this.server.close();
-        this.currentUser = null; // Clear user after request
       });
 
-      await this.sendMessages();
+      await this.sendMessages(this.server);
       log.success(
         `${req.method} request handled successfully (status=${res.statusCode})`
       );
@@ -283,12 +419,341 @@ export class StreamableHTTPServer {
     }
   }
 
-  private listTools(parentSpan: Span, trace: TraceAPI, context: ContextAPI) {
+  private async handleStatefulRequest(req: Request, res: Response) {
+    const tracer = trace.getTracer("mcp-server");
+    const span = tracer.startSpan("server.handleStatefulRequest", {
+      attributes: { "http.method": req.method },
+    });
+    const user = (req as any).user as AuthenticatedUser | undefined;
+
+    try {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? TransportsCache.get(sessionId) : undefined;
+
+      if (sessionId) {
+        span.setAttribute("session.id", sessionId);
+      }
+
+      // Another user's session is answered exactly like an unknown one, so
+      // session ids cannot be probed.
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (transport && session?.userId !== (user?.id ?? "anonymous")) {
+        span.addEvent("session.owner_mismatch");
+        log.warn(
+          `User ${user?.id ?? "anonymous"} tried to use session ${sessionId} of another user`
+        );
+        transport = undefined;
+      }
+
+      if (sessionId && !transport) {
+        span.addEvent("session.not_found");
+        span.setStatus({ code: SpanStatusCode.ERROR, message: "Unknown session" });
+        log.warn(`Request for unknown or expired session ${sessionId}`);
+        res.status(404).json(this.createRPCErrorResponse("Session not found"));
+        return;
+      }
+
+      if (!transport) {
+        if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+          span.addEvent("session.missing");
+          span.setStatus({ code: SpanStatusCode.ERROR, message: "Missing session" });
+          res
+            .status(400)
+            .json(
+              this.createRPCErrorResponse(
+                "Bad Request: Mcp-Session-Id header is required"
+              )
+            );
+          return;
+        }
+
+        transport = await this.createSession(req.body, user);
+        span.addEvent("session.created");
+      } else {
+        const entry = session!;
+        entry.lastSeenAt = Date.now();
+        entry.openResponses++;
+        res.on("close", () => {
+          entry.openResponses--;
+          entry.lastSeenAt = Date.now();
+        });
+      }
+
+      await transport.handleRequest(req, res, req.body);
+
+      span.setAttribute("http.response.status_code", res.statusCode);
+      span.setStatus({ code: SpanStatusCode.OK });
+      log.success(
+        `${req.method} request handled successfully (status=${res.statusCode})`
+      );
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private async createSession(
+    initializeRequest: InitializeRequest,
+    user: AuthenticatedUser | undefined
+  ): Promise<StreamableHTTPServerTransport> {
+    const server = this.createServer(() => transport.sessionId);
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          const now = Date.now();
+          TransportsCache.set(sessionId, transport);
+          this.sessions.set(sessionId, {
+            server,
+            lastSeenAt: now,
+            connectedAt: now,
+            protocolVersion: initializeRequest.params.protocolVersion,
+            clientInfo: initializeRequest.params.clientInfo,
+            userId: user?.id ?? "anonymous",
+            role: user?.role,
+            openResponses: 0,
+          });
+          this.trackInitialization(sessionId, initializeRequest);
+          log.success(`Session ${sessionId} opened`);
+        },
+      });
+
+    // Covers DELETE requests, idle expiry and client disconnects alike.
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.has(sessionId)) {
+        TransportsCache.delete(sessionId);
+        this.sessions.delete(sessionId);
+        this.clearPendingInitialization(sessionId);
+        log.info(`Session ${sessionId} closed`);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+
+  private async closeSession(sessionId: string, reason: string) {
+    const tracer = trace.getTracer("mcp-server");
+    const span = tracer.startSpan("server.closeSession", {
+      attributes: { "session.id": sessionId, "session.close_reason": reason },
+    });
+
+    try {
+      const session = this.sessions.get(sessionId);
+      const transport = TransportsCache.get(sessionId);
+      TransportsCache.delete(sessionId);
+      this.sessions.delete(sessionId);
+      this.clearPendingInitialization(sessionId);
+
+      await transport?.close().catch(() => undefined);
+      await session?.server.close().catch(() => undefined);
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      log.info(`Session ${sessionId} closed (${reason})`);
+    } finally {
+      span.end();
+    }
+  }
+
+  private trackInitialization(
+    sessionId: string,
+    initializeRequest: InitializeRequest
+  ) {
+    const tracer = trace.getTracer("mcp-server");
+    const span = tracer.startSpan("server.trackInitialization", {
+      attributes: {
+        "session.id": sessionId,
+        "protocol.version": initializeRequest.params.protocolVersion,
+        "client.name": initializeRequest.params.clientInfo?.name || "unknown",
+        "client.version":
+          initializeRequest.params.clientInfo?.version || "unknown",
+      },
+    });
+
+    try {
+      const timeoutId = setTimeout(
+        () => this.abandonInitialization(sessionId),
+        HANDSHAKE_TIMEOUT_MS
+      );
+      timeoutId.unref();
+
+      this.pendingInitializations.set(sessionId, {
+        sessionId,
+        protocolVersion: initializeRequest.params.protocolVersion,
+        clientInfo: initializeRequest.params.clientInfo,
+        createdAt: Date.now(),
+        timeoutId,
+      });
+
+      span.addEvent("session.initialization_pending");
+      span.setStatus({ code: SpanStatusCode.OK });
+    } finally {
+      span.end();
+    }
+  }
+
+  private abandonInitialization(sessionId: string) {
+    const pending = this.pendingInitializations.get(sessionId);
+    if (!pending) {
+      return;
+    }
+
+    const tracer = trace.getTracer("mcp-server");
+    const span = tracer.startSpan("server.abandonInitialization", {
+      attributes: {
+        "session.id": sessionId,
+        "protocol.version": pending.protocolVersion,
+        "client.name": pending.clientInfo?.name || "unknown",
+        "session.handshake_timeout_ms": HANDSHAKE_TIMEOUT_MS,
+      },
+    });
+
+    try {
+      this.pendingInitializations.delete(sessionId);
+      span.addEvent("session.handshake_timeout");
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: "Initialization handshake timed out",
+      });
+      log.warn(
+        `Session ${sessionId} did not complete initialization within ${HANDSHAKE_TIMEOUT_MS}ms`
+      );
+
+      if (this.sessions.has(sessionId)) {
+        void this.closeSession(sessionId, "handshake_timeout");
+      }
+    } finally {
+      span.end();
+    }
+  }
+
+  private clearPendingInitialization(sessionId: string) {
+    const pending = this.pendingInitializations.get(sessionId);
+    if (pending?.timeoutId) {
+      clearTimeout(pending.timeoutId);
+    }
+    this.pendingInitializations.delete(sessionId);
+  }
+
+  listSessions(): SessionSummary[] {
+    return [...this.sessions.entries()].map(([sessionId, session]) => ({
+      sessionId,
+      clientName: session.clientInfo?.name || "unknown",
+      clientVersion: session.clientInfo?.version || "unknown",
+      protocolVersion: session.protocolVersion,
+      userId: session.userId,
+      connectedAt: new Date(session.connectedAt).toISOString(),
+      initializedAt: session.initializedAt
+        ? new Date(session.initializedAt).toISOString()
+        : undefined,
+      lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+    }));
+  }
+
+  getPendingInitializationCount(): number {
+    return this.pendingInitializations.size;
+  }
+
+  // Only stateful sessions keep a stream open that notifications can reach.
+  private async broadcastListChanged(kind: "tools" | "resources" | "prompts") {
+    const tracer = trace.getTracer("mcp-server");
+    const span = tracer.startSpan("server.broadcastListChanged", {
+      attributes: {
+        "catalog.kind": kind,
+        "sessions.count": this.sessions.size,
+      },
+    });
+
+    try {
+      let delivered = 0;
+      for (const [sessionId, session] of this.sessions.entries()) {
+        if (!session.initializedAt) {
+          continue;
+        }
+
+        try {
+          if (kind === "tools") {
+            await session.server.sendToolListChanged();
+          } else if (kind === "resources") {
+            await session.server.sendResourceListChanged();
+          } else {
+            await session.server.sendPromptListChanged();
+          }
+          delivered++;
+        } catch (error) {
+          span.addEvent("notification.send_error", {
+            "session.id": sessionId,
+            "error.message":
+              error instanceof Error ? error.message : String(error),
+          });
+          log.warn(`Failed to notify session ${sessionId} of ${kind} change:`, error);
+        }
+      }
+
+      span.setAttribute("notifications.delivered", delivered);
+      span.setStatus({ code: SpanStatusCode.OK });
+      log.info(`Notified ${delivered} session(s) that ${kind} changed`);
+    } finally {
+      span.end();
+    }
+  }
+
+  // Called for every log line, so it stays off the tracer on purpose.
+  // Travel servers are shared by all users and their logs can echo other
+  // users' tool arguments, so only admin sessions receive them.
+  private forwardServerLog(entry: ServerLogEntry) {
+    const severity = LOG_LEVEL_SEVERITY.get(entry.level) ?? 0;
+
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (
+        session.role !== UserRole.ADMIN ||
+        !session.initializedAt ||
+        !session.logLevel ||
+        severity < (LOG_LEVEL_SEVERITY.get(session.logLevel) ?? 0)
+      ) {
+        continue;
+      }
+
+      session.server
+        .sendLoggingMessage({
+          level: entry.level,
+          logger: entry.serverId,
+          data: entry.data,
+        })
+        .catch((error) =>
+          log.warn(`Failed to forward log to session ${sessionId}:`, error)
+        );
+    }
+  }
+
+  private expireIdleSessions() {
+    const now = Date.now();
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (
+        session.openResponses === 0 &&
+        now - session.lastSeenAt > this.sessionIdleTimeoutMs
+      ) {
+        void this.closeSession(sessionId, "idle_timeout");
+      }
+    }
+  }
+
+  private listTools(
+    parentSpan: Span,
+    trace: TraceAPI,
+    context: ContextAPI,
+    user: AuthenticatedUser | null
+  ) {
     const ctx = trace.setSpan(context.active(), parentSpan);
     const tracer = trace.getTracer("mcp-server");
     const span = tracer.startSpan("listTools", undefined, ctx);
 
-    const user = this.currentUser;
     span.setAttribute("user.id", user?.id || "anonymous");
     span.setAttribute("user.role", user?.role || "none");
 
@@ -300,11 +765,13 @@ export class StreamableHTTPServer {
         code: SpanStatusCode.ERROR,
         message: "Permission denied",
       });
-      const resp = this.createRPCErrorResponse(
-        "Insufficient permissions to list tools"
+      const error = this.toRpcError(
+        span,
+        new PermissionDeniedError("Insufficient permissions to list tools"),
+        "Failed to list tools"
       );
       span.end();
-      return resp;
+      throw error;
     }
 
     // Filter tools based on user permissions
@@ -342,13 +809,13 @@ export class StreamableHTTPServer {
   private async listResources(
     parentSpan: Span,
     traceApi: TraceAPI,
-    contextApi: ContextAPI
+    contextApi: ContextAPI,
+    user: AuthenticatedUser | null
   ) {
     const ctx = traceApi.setSpan(contextApi.active(), parentSpan);
     const tracer = traceApi.getTracer("mcp-server");
     const span = tracer.startSpan("listResources", undefined, ctx);
 
-    const user = this.currentUser;
     span.setAttribute("user.id", user?.id || "anonymous");
     span.setAttribute("user.role", user?.role || "none");
 
@@ -364,7 +831,7 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: "Permission denied",
         });
-        return this.createRPCErrorResponse(
+        throw new PermissionDeniedError(
           "Insufficient permissions to list resources"
         );
       }
@@ -408,8 +875,97 @@ export class StreamableHTTPServer {
         code: SpanStatusCode.ERROR,
         message: error instanceof Error ? error.message : String(error),
       });
-      log.error("Error listing resources:", error);
-      return this.createRPCErrorResponse("Failed to list resources");
+      if (!isGatewayError(error)) {
+        log.error("Error listing resources:", error);
+      }
+      throw this.toRpcError(span, error, "Failed to list resources");
+    } finally {
+      span.end();
+    }
+  }
+
+  private async listResourceTemplates(
+    parentSpan: Span,
+    traceApi: TraceAPI,
+    contextApi: ContextAPI,
+    user: AuthenticatedUser | null
+  ) {
+    const ctx = traceApi.setSpan(contextApi.active(), parentSpan);
+    const tracer = traceApi.getTracer("mcp-server");
+    const span = tracer.startSpan("listResourceTemplates", undefined, ctx);
+
+    span.setAttribute("user.id", user?.id || "anonymous");
+    span.setAttribute("user.role", user?.role || "none");
+
+    try {
+      if (!user || !hasPermission(user, Permission.LIST_RESOURCES)) {
+        log.warn(
+          `User ${user?.id || "unknown"} denied permission to list resource templates`
+        );
+        span.addEvent("authorization.denied", {
+          reason: "missing LIST_RESOURCES",
+        });
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Permission denied",
+        });
+        throw new PermissionDeniedError(
+          "Insufficient permissions to list resource templates"
+        );
+      }
+
+      const availableTemplates = await this.registry.listResourceTemplates();
+      const filterSpan = tracer.startSpan(
+        "authorization.filterResourceTemplates",
+        {
+          attributes: {
+            "resource_templates.available": availableTemplates.length,
+          },
+        }
+      );
+
+      const allowedTemplates = availableTemplates.filter((template) => {
+        const requiredPermissions =
+          this.registry.getResourceTemplatePermissions(template.uriTemplate);
+        const allowed = requiredPermissions.some((permission: Permission) =>
+          hasPermission(user, permission)
+        );
+        if (allowed) {
+          filterSpan.addEvent("resource_template.allowed", {
+            template: template.uriTemplate,
+          });
+        } else {
+          filterSpan.addEvent("resource_template.denied", {
+            template: template.uriTemplate,
+          });
+        }
+        return allowed;
+      });
+
+      filterSpan.setAttribute(
+        "resource_templates.allowed.count",
+        allowedTemplates.length
+      );
+      filterSpan.end();
+
+      span.setAttribute("resource_templates.returned", allowedTemplates.length);
+      span.setStatus({ code: SpanStatusCode.OK });
+      return {
+        jsonrpc: JSON_RPC,
+        resourceTemplates: allowedTemplates,
+      };
+    } catch (error) {
+      span.addEvent("resource_template.list.error", {
+        "error.message": error instanceof Error ? error.message : String(error),
+      });
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      if (!isGatewayError(error)) {
+        log.error("Error listing resource templates:", error);
+      }
+      throw this.toRpcError(span, error, "Failed to list resource templates");
     } finally {
       span.end();
     }
@@ -419,13 +975,13 @@ export class StreamableHTTPServer {
     parentSpan: Span,
     traceApi: TraceAPI,
     contextApi: ContextAPI,
+    user: AuthenticatedUser | null,
     uri: string
   ) {
     const ctx = traceApi.setSpan(contextApi.active(), parentSpan);
     const tracer = traceApi.getTracer("mcp-server");
     const span = tracer.startSpan("readResource", undefined, ctx);
 
-    const user = this.currentUser;
     span.setAttributes({
       "user.id": user?.id || "anonymous",
       "user.role": user?.role || "none",
@@ -439,7 +995,7 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: "Resource URI required",
         });
-        return this.createRPCErrorResponse("Resource URI is required");
+        throw new InvalidParamsError("Resource URI is required");
       }
 
       if (!user) {
@@ -448,7 +1004,7 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: "Authentication required",
         });
-        return this.createRPCErrorResponse("Authentication required");
+        throw new PermissionDeniedError("Authentication required");
       }
 
       const requiredPermissions = this.getResourceRequiredPermissions(uri);
@@ -474,7 +1030,7 @@ export class StreamableHTTPServer {
         log.warn(
           `Resource access denied: User ${user.id} lacks permissions for ${uri}`
         );
-        return this.createRPCErrorResponse(
+        throw new PermissionDeniedError(
           "Insufficient permissions for this resource"
         );
       }
@@ -498,8 +1054,10 @@ export class StreamableHTTPServer {
         code: SpanStatusCode.ERROR,
         message: error instanceof Error ? error.message : String(error),
       });
-      log.error(`Error reading resource ${uri}:`, error);
-      return this.createRPCErrorResponse("Failed to read resource contents");
+      if (!isGatewayError(error)) {
+        log.error(`Error reading resource ${uri}:`, error);
+      }
+      throw this.toRpcError(span, error, "Failed to read resource contents");
     } finally {
       span.end();
     }
@@ -508,13 +1066,13 @@ export class StreamableHTTPServer {
   private async listPrompts(
     parentSpan: Span,
     traceApi: TraceAPI,
-    contextApi: ContextAPI
+    contextApi: ContextAPI,
+    user: AuthenticatedUser | null
   ) {
     const ctx = traceApi.setSpan(contextApi.active(), parentSpan);
     const tracer = traceApi.getTracer("mcp-server");
     const span = tracer.startSpan("listPrompts", undefined, ctx);
 
-    const user = this.currentUser;
     span.setAttribute("user.id", user?.id || "anonymous");
     span.setAttribute("user.role", user?.role || "none");
 
@@ -530,7 +1088,7 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: "Permission denied",
         });
-        return this.createRPCErrorResponse(
+        throw new PermissionDeniedError(
           "Insufficient permissions to list prompts"
         );
       }
@@ -574,8 +1132,10 @@ export class StreamableHTTPServer {
         code: SpanStatusCode.ERROR,
         message: error instanceof Error ? error.message : String(error),
       });
-      log.error("Error listing prompts:", error);
-      return this.createRPCErrorResponse("Failed to list prompts");
+      if (!isGatewayError(error)) {
+        log.error("Error listing prompts:", error);
+      }
+      throw this.toRpcError(span, error, "Failed to list prompts");
     } finally {
       span.end();
     }
@@ -585,6 +1145,7 @@ export class StreamableHTTPServer {
     parentSpan: Span,
     traceApi: TraceAPI,
     contextApi: ContextAPI,
+    user: AuthenticatedUser | null,
     name: string,
     args?: Record<string, unknown>
   ) {
@@ -592,7 +1153,6 @@ export class StreamableHTTPServer {
     const tracer = traceApi.getTracer("mcp-server");
     const span = tracer.startSpan("getPrompt", undefined, ctx);
 
-    const user = this.currentUser;
     span.setAttributes({
       "user.id": user?.id || "anonymous",
       "user.role": user?.role || "none",
@@ -606,7 +1166,7 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: "Prompt name required",
         });
-        return this.createRPCErrorResponse("Prompt name is required");
+        throw new InvalidParamsError("Prompt name is required");
       }
 
       if (!user) {
@@ -615,7 +1175,7 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: "Authentication required",
         });
-        return this.createRPCErrorResponse("Authentication required");
+        throw new PermissionDeniedError("Authentication required");
       }
 
       const requiredPermissions = this.getPromptRequiredPermissions(name);
@@ -641,7 +1201,7 @@ export class StreamableHTTPServer {
         log.warn(
           `Prompt access denied: User ${user.id} lacks permissions for prompt ${name}`
         );
-        return this.createRPCErrorResponse(
+        throw new PermissionDeniedError(
           "Insufficient permissions for this prompt"
         );
       }
@@ -667,57 +1227,179 @@ export class StreamableHTTPServer {
         code: SpanStatusCode.ERROR,
         message: error instanceof Error ? error.message : String(error),
       });
-      log.error(`Error fetching prompt ${name}:`, error);
-      return this.createRPCErrorResponse("Failed to fetch prompt");
+      if (!isGatewayError(error)) {
+        log.error(`Error fetching prompt ${name}:`, error);
+      }
+      throw this.toRpcError(span, error, "Failed to fetch prompt");
     } finally {
       span.end();
     }
   }
 
-  private setupServerRequestHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async (request) => {
-      const tracer = trace.getTracer("mcp-server");
-      const parentSpan = tracer.startSpan("main");
-      return this.listTools(parentSpan, trace, context);
-    });
+  private async complete(
+    parentSpan: Span,
+    traceApi: TraceAPI,
+    contextApi: ContextAPI,
+    user: AuthenticatedUser | null,
+    params: CompleteRequest["params"]
+  ) {
+    const ctx = traceApi.setSpan(contextApi.active(), parentSpan);
+    const tracer = traceApi.getTracer("mcp-server");
+    const span = tracer.startSpan("complete", undefined, ctx);
 
-    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
-      const tracer = trace.getTracer("mcp-server");
-      const parentSpan = tracer.startSpan("main");
-      return this.listResources(parentSpan, trace, context);
+    span.setAttributes({
+      "user.id": user?.id || "anonymous",
+      "user.role": user?.role || "none",
+      "completion.ref_type": params.ref.type,
+      "completion.argument": params.argument.name,
     });
 
-    this.server.setRequestHandler(
+    try {
+      if (!user) {
+        span.addEvent("authentication.failed", { reason: "no_user_context" });
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Authentication required",
+        });
+        throw new PermissionDeniedError("Authentication required");
+      }
+
+      const requiredPermissions =
+        params.ref.type === "ref/prompt"
+          ? this.getPromptRequiredPermissions(params.ref.name)
+          : this.registry.getResourceTemplatePermissions(params.ref.uri);
+      const hasRequiredPermission = requiredPermissions.some(
+        (permission: Permission) => hasPermission(user, permission)
+      );
+
+      if (!hasRequiredPermission) {
+        span.addEvent("authorization.denied", {
+          "user.id": user.id,
+          required_permissions: requiredPermissions.join(","),
+        });
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Insufficient permissions",
+        });
+        throw new PermissionDeniedError(
+          "Insufficient permissions for this completion"
+        );
+      }
+
+      // Fall back to the gateway's own completers when the owning server has
+      // none, or none for this argument.
+      const delegated = await this.registry.complete(params);
+      const completion = delegated?.values.length
+        ? delegated
+        : this.completer.complete(
+            user.id,
+            params.argument.name,
+            params.argument.value
+          ) ?? delegated ?? { values: [] };
+
+      span.setAttributes({
+        "completion.source": delegated?.values.length ? "server" : "gateway",
+        "completion.values.count": completion.values.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return { completion };
+    } catch (error) {
+      span.addEvent("completion.error", {
+        "error.message": error instanceof Error ? error.message : String(error),
+      });
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      if (!isGatewayError(error)) {
+        log.error("Error completing argument:", error);
+      }
+      throw this.toRpcError(span, error, "Failed to complete argument");
+    } finally {
+      span.end();
+    }
+  }
+
+  private setupServerRequestHandlers(server: Server) {
+    server.setRequestHandler(
+      ListToolsRequestSchema,
+      async (request, extra) => {
+        const tracer = trace.getTracer("mcp-server");
+        const parentSpan = tracer.startSpan("main");
+        const user = getAuthenticatedUser(extra.authInfo);
+        return this.listTools(parentSpan, trace, context, user);
+      }
+    );
+
+    server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async (request, extra) => {
+        const tracer = trace.getTracer("mcp-server");
+        const parentSpan = tracer.startSpan("main");
+        const user = getAuthenticatedUser(extra.authInfo);
+        return this.listResources(parentSpan, trace, context, user);
+      }
+    );
+
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async (request, extra) => {
+        const tracer = trace.getTracer("mcp-server");
+        const parentSpan = tracer.startSpan("main");
+        const user = getAuthenticatedUser(extra.authInfo);
+        return this.listResourceTemplates(parentSpan, trace, context, user);
+      }
+    );
+
+    server.setRequestHandler(
       ReadResourceRequestSchema,
-      async (request) => {
+      async (request, extra) => {
         const tracer = trace.getTracer("mcp-server");
         const parentSpan = tracer.startSpan("main");
+        const user = getAuthenticatedUser(extra.authInfo);
         const uri = request.params?.uri ?? "";
-        return this.readResource(parentSpan, trace, context, uri);
+        return this.readResource(parentSpan, trace, context, user, uri);
       }
     );
 
-    this.server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
-      const tracer = trace.getTracer("mcp-server");
-      const parentSpan = tracer.startSpan("main");
-      return this.listPrompts(parentSpan, trace, context);
-    });
+    server.setRequestHandler(
+      ListPromptsRequestSchema,
+      async (request, extra) => {
+        const tracer = trace.getTracer("mcp-server");
+        const parentSpan = tracer.startSpan("main");
+        const user = getAuthenticatedUser(extra.authInfo);
+        return this.listPrompts(parentSpan, trace, context, user);
+      }
+    );
+
+    server.setRequestHandler(
+      GetPromptRequestSchema,
+      async (request, extra) => {
+        const tracer = trace.getTracer("mcp-server");
+        const parentSpan = tracer.startSpan("main");
+        const user = getAuthenticatedUser(extra.authInfo);
+        const promptArgs = (request.params?.arguments ??
+          undefined) as Record<string, unknown> | undefined;
+        return this.getPrompt(
+          parentSpan,
+          trace,
+          context,
+          user,
+          request.params?.name ?? "",
+          promptArgs
+        );
+      }
+    );
 
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
       const tracer = trace.getTracer("mcp-server");
       const parentSpan = tracer.startSpan("main");
-      const promptArgs = (request.params?.arguments ??
-        undefined) as Record<string, unknown> | undefined;
-      return this.getPrompt(
-        parentSpan,
-        trace,
-        context,
-        request.params?.name ?? "",
-        promptArgs
-      );
+      const user = getAuthenticatedUser(extra.authInfo);
+      return this.complete(parentSpan, trace, context, user, request.params);
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const tracer = trace.getTracer("mcp-server");
       const span = tracer.startSpan("callTool", {
         attributes: {
@@ -728,10 +1410,17 @@ export class StreamableHTTPServer {
 
       const args = request.params.arguments;
       const toolName = request.params.name;
-      const user = this.currentUser;
+      const user = getAuthenticatedUser(extra.authInfo);
       const tool = this.registry
         .listTools()
         .find((candidate) => candidate.name === toolName);
+      // Covers both notifications/cancelled and the client disconnecting
+      const disconnectSignal = extra.authInfo?.extra?.disconnectSignal as
+        | AbortSignal
+        | undefined;
+      const signal = disconnectSignal
+        ? AbortSignal.any([extra.signal, disconnectSignal])
+        : extra.signal;
 
       // Add user context to span
       if (user) {
@@ -756,7 +1445,7 @@ export class StreamableHTTPServer {
             message: "Authentication required",
           });
           log.warn(`Unauthenticated user attempted to call tool: ${toolName}`);
-          return this.createRPCErrorResponse("Authentication required");
+          throw new PermissionDeniedError("Authentication required");
         }
 
         if (!tool) {
@@ -768,7 +1457,7 @@ export class StreamableHTTPServer {
             message: "Tool not found",
           });
           log.error(`Tool ${toolName} not found.`);
-          return this.createRPCErrorResponse(`Tool ${toolName} not found.`);
+          throw new InvalidParamsError(`Unknown tool: ${toolName}`);
         }
 
         // Check tool-specific permissions
@@ -795,7 +1484,7 @@ export class StreamableHTTPServer {
           log.warn(
             `User ${user.id} denied permission to call tool: ${toolName}`
           );
-          return this.createRPCErrorResponse(
+          throw new PermissionDeniedError(
             `Insufficient permissions to call tool: ${toolName}`
           );
         }
@@ -807,11 +1496,41 @@ export class StreamableHTTPServer {
         });
 
         const executionStart = Date.now();
+        const progressToken = request.params._meta?.progressToken;
         const result = await this.registry.callTool(
           toolName,
-          (args as Record<string, unknown>) || {}
+          (args as Record<string, unknown>) || {},
+          {
+            signal,
+            progress:
+              progressToken !== undefined
+                ? { token: progressToken, notify: extra.sendNotification }
+                : undefined,
+            // Stateless requests have no channel left for client requests
+            origin: this.stateful
+              ? {
+                  sessionId: extra.sessionId,
+                  userId: user.id,
+                  capabilities: server.getClientCapabilities(),
+                  createMessage: (params, signal) =>
+                    extra.sendRequest(
+                      { method: "sampling/createMessage", params },
+                      CreateMessageResultSchema,
+                      { signal }
+                    ),
+                  elicitInput: (params, signal) =>
+                    extra.sendRequest(
+                      { method: "elicitation/create", params },
+                      ElicitResultSchema,
+                      { signal }
+                    ),
+                }
+              : undefined,
+            user: { id: user.id, role: user.role },
+          }
         );
         const executionTime = Date.now() - executionStart;
+        this.completer.recordToolResult(user.id, result);
 
         span.setAttributes({
           "tool.execution_time_ms": executionTime,
@@ -837,6 +1556,10 @@ export class StreamableHTTPServer {
           ...result,
         };
       } catch (error) {
+        if (signal.aborted) {
+          span.addEvent("tool.cancelled");
+          log.info(`Call to ${toolName} cancelled by the client`);
+        }
         span.addEvent("tool.execution_error", {
           "error.message":
             error instanceof Error ? error.message : String(error),
@@ -846,37 +1569,61 @@ export class StreamableHTTPServer {
           code: SpanStatusCode.ERROR,
           message: error instanceof Error ? error.message : String(error),
         });
+
+        // Gateway-side failures (permissions, unknown tool, timeout) are
+        // protocol errors; anything the travel server reported goes back to
+        // the model as a tool result.
+        if (isGatewayError(error)) {
+          throw this.toRpcError(span, error, `Error executing tool ${toolName}`);
+        }
+
         log.error(
           `Error executing tool ${toolName} for user ${user?.id || "unknown"}:`,
           error
         );
-        return this.createRPCErrorResponse(
-          `Error executing tool ${toolName}: ${error}`
-        );
+        span.setAttribute("tool.is_error", true);
+        if (error instanceof McpError) {
+          span.setAttribute("tool.upstream_error_code", error.code);
+        }
+        return toToolErrorResult(error);
       } finally {
         span.end();
       }
     });
 
-    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
-      const { level } = request.params;
-      log.info(`Setting log level to: ${level}`);
-
-      // Demonstrate different log levels
-      await this.server.notification({
-        method: "notifications/message",
-        params: {
-          level: "debug",
-          logger: "test-server",
-          data: `Logging level set to: ${level}`,
+    server.setRequestHandler(SetLevelRequestSchema, async (request, extra) => {
+      const tracer = trace.getTracer("mcp-server");
+      const span = tracer.startSpan("setLogLevel", {
+        attributes: {
+          "log.level": request.params.level,
+          "session.id": extra.sessionId ?? "none",
         },
       });
 
-      return {};
+      try {
+        const { level } = request.params;
+        const session = extra.sessionId
+          ? this.sessions.get(extra.sessionId)
+          : undefined;
+
+        if (session) {
+          session.logLevel = level;
+          log.info(`Session ${extra.sessionId} log level set to: ${level}`);
+        } else {
+          // Stateless requests have no session to keep the level on
+          span.addEvent("session.not_found");
+          log.info(`Ignoring log level ${level} for a stateless request`);
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+        return {};
+      } finally {
+        span.end();
+      }
     });
   }
 
-  private async sendMessages() {
+  private async sendMessages(server: Server) {
     const tracer = trace.getTracer("mcp-server");
     const span = tracer.startSpan("server.sendMessages");
 
@@ -892,7 +1639,7 @@ export class StreamableHTTPServer {
       });
 
       log.info("Sending connection established notification.");
-      await this.sendNotification(message);
+      await this.sendNotification(server, message);
 
       span.addEvent("message.sent_successfully");
       span.setStatus({
@@ -913,7 +1660,7 @@ export class StreamableHTTPServer {
     }
   }
 
-  private async sendNotification(notification: Notification) {
+  private async sendNotification(server: Server, notification: Notification) {
     const tracer = trace.getTracer("mcp-server");
     const span = tracer.startSpan("server.sendNotification", {
       attributes: {
@@ -938,7 +1685,7 @@ export class StreamableHTTPServer {
 
       log.info(`Sending notification: ${notification.method}`);
       const startTime = Date.now();
-      await this.server.notification(rpcNotificaiton);
+      await server.notification(rpcNotificaiton);
       const sendTime = Date.now() - startTime;
 
       span.setAttributes({
@@ -969,14 +1716,29 @@ export class StreamableHTTPServer {
     }
   }
 
-  private createRPCErrorResponse(message: string): JSONRPCError {
+  // Records the JSON-RPC code on the span and returns the McpError a handler
+  // throws; the SDK then answers the original request id with it.
+  private toRpcError(span: Span, error: unknown, fallbackMessage: string): McpError {
+    const rpcError = toMcpError(error, fallbackMessage);
+    span.setAttributes({
+      "rpc.jsonrpc.error_code": rpcError.code,
+      "rpc.jsonrpc.error_message": rpcError.message,
+    });
+    return rpcError;
+  }
+
+  // Only for errors written straight to the HTTP response, before a request
+  // reaches a handler; the request id is unknown there, so it is null.
+  private createRPCErrorResponse(
+    message: string
+  ): Omit<JSONRPCError, "id"> & { id: null } {
     return {
       jsonrpc: JSON_RPC,
       error: {
         code: JSON_RPC_ERROR,
         message: message,
       },
-      id: randomUUID(),
+      id: null,
     };
   }
 }
@@ -0,0 +1,140 @@
+import type { Server as HttpServer } from "node:http";
+import { NextFunction, Request, Response } from "express";
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { logger } from "./helpers/logs.js";
+import { shutdownTelemetry } from "./helpers/otel.js";
+import type { StreamableHTTPServer } from "./server.js";
+import type { TravelRegistry } from "./travel/registry.js";
+
+const log = logger("shutdown");
+
+const DEFAULT_DRAIN_TIMEOUT_MS = 25 * 1000;
+
+export interface ShutdownOptions {
+  // How long to wait for outstanding tool calls before closing child servers
+  drainTimeoutMs?: number;
+  // Extra cleanup (config watchers, timers) run before the registry closes
+  onShutdown?: () => void | Promise<void>;
+}
+
+export class ShutdownCoordinator {
+  private shuttingDown = false;
+  private httpServer?: HttpServer;
+  private readonly drainTimeoutMs: number;
+
+  constructor(
+    private readonly server: StreamableHTTPServer,
+    private readonly registry: TravelRegistry,
+    private readonly options: ShutdownOptions = {}
+  ) {
+    this.drainTimeoutMs = options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  attach(httpServer: HttpServer) {
+    this.httpServer = httpServer;
+  }
+
+  listen(signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"]) {
+    for (const signal of signals) {
+      process.on(signal, () => {
+        void this.shutdown(signal);
+      });
+    }
+  }
+
+  // Rejects new MCP requests once shutdown has started so clients retry
+  // against another replica.
+  rejectWhenShuttingDown = (req: Request, res: Response, next: NextFunction) => {
+    if (!this.shuttingDown) {
+      next();
+      return;
+    }
+
+    res.setHeader("Connection", "close");
+    res.setHeader("Retry-After", "1");
+    res.status(503).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: "Server is shutting down",
+      },
+      id: null,
+    });
+  };
+
+  async shutdown(signal: NodeJS.Signals) {
+    if (this.shuttingDown) {
+      log.warn(`Received ${signal} while already shutting down`);
+      return;
+    }
+    this.shuttingDown = true;
+
+    const tracer = trace.getTracer("http-server");
+    const span = tracer.startSpan("http.server_shutdown", {
+      attributes: {
+        "shutdown.signal": signal,
+        "shutdown.drain_timeout_ms": this.drainTimeoutMs,
+        "server.uptime_seconds": Math.round(process.uptime()),
+      },
+    });
+
+    let exitCode = 0;
+    try {
+      log.warn(`Received ${signal}, shutting down server...`);
+      const shutdownStart = Date.now();
+
+      // The listener stays open while draining so /readyz can report 503 and
+      // new /mcp requests are turned away instead of refused
+      span.addEvent("shutdown.draining_started", {
+        in_flight_calls: this.registry.getInFlightCallCount(),
+      });
+
+      const drained = await this.registry.waitForInFlightCalls(
+        this.drainTimeoutMs
+      );
+      if (!drained) {
+        log.warn(
+          `Abandoning ${this.registry.getInFlightCallCount()} tool call(s) still running after ${this.drainTimeoutMs}ms`
+        );
+      }
+      span.addEvent("shutdown.drained", { drained });
+
+      this.httpServer?.close();
+      await this.options.onShutdown?.();
+      await this.server.close();
+      this.httpServer?.closeAllConnections();
+
+      const shutdownTime = Date.now() - shutdownStart;
+      span.setAttributes({
+        "shutdown.success": true,
+        "shutdown.drained": drained,
+        "shutdown.time_ms": shutdownTime,
+      });
+      span.setStatus({
+        code: SpanStatusCode.OK,
+        message: "Server shutdown completed",
+      });
+      log.success("Server shutdown completed successfully");
+    } catch (error) {
+      exitCode = 1;
+      span.addEvent("shutdown.error", {
+        "error.message": error instanceof Error ? error.message : String(error),
+      });
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      log.error("Error during shutdown:", error);
+    } finally {
+      span.end();
+    }
+
+    // Flush last so the shutdown span itself is exported
+    await shutdownTelemetry();
+    process.exit(exitCode);
+  }
+}
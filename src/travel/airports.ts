@@ -0,0 +1,136 @@
+export interface Airport {
+  code: string;
+  city: string;
+  name: string;
+  country: string;
+}
+
+// Major international airports, used to complete IATA code arguments when a
+// travel server offers no completions of its own.
+export const AIRPORTS: Airport[] = [
+  { code: "ATL", city: "Atlanta", name: "Hartsfield-Jackson Atlanta International", country: "US" },
+  { code: "LAX", city: "Los Angeles", name: "Los Angeles International", country: "US" },
+  { code: "ORD", city: "Chicago", name: "O'Hare International", country: "US" },
+  { code: "MDW", city: "Chicago", name: "Midway International", country: "US" },
+  { code: "DFW", city: "Dallas", name: "Dallas/Fort Worth International", country: "US" },
+  { code: "DEN", city: "Denver", name: "Denver International", country: "US" },
+  { code: "JFK", city: "New York", name: "John F. Kennedy International", country: "US" },
+  { code: "LGA", city: "New York", name: "LaGuardia", country: "US" },
+  { code: "EWR", city: "Newark", name: "Newark Liberty International", country: "US" },
+  { code: "SFO", city: "San Francisco", name: "San Francisco International", country: "US" },
+  { code: "SEA", city: "Seattle", name: "Seattle-Tacoma International", country: "US" },
+  { code: "LAS", city: "Las Vegas", name: "Harry Reid International", country: "US" },
+  { code: "MCO", city: "Orlando", name: "Orlando International", country: "US" },
+  { code: "MIA", city: "Miami", name: "Miami International", country: "US" },
+  { code: "BOS", city: "Boston", name: "Logan International", country: "US" },
+  { code: "IAD", city: "Washington", name: "Washington Dulles International", country: "US" },
+  { code: "DCA", city: "Washington", name: "Ronald Reagan Washington National", country: "US" },
+  { code: "PHX", city: "Phoenix", name: "Phoenix Sky Harbor International", country: "US" },
+  { code: "IAH", city: "Houston", name: "George Bush Intercontinental", country: "US" },
+  { code: "MSP", city: "Minneapolis", name: "Minneapolis-Saint Paul International", country: "US" },
+  { code: "DTW", city: "Detroit", name: "Detroit Metropolitan Wayne County", country: "US" },
+  { code: "PHL", city: "Philadelphia", name: "Philadelphia International", country: "US" },
+  { code: "SAN", city: "San Diego", name: "San Diego International", country: "US" },
+  { code: "HNL", city: "Honolulu", name: "Daniel K. Inouye International", country: "US" },
+  { code: "YYZ", city: "Toronto", name: "Toronto Pearson International", country: "CA" },
+  { code: "YVR", city: "Vancouver", name: "Vancouver International", country: "CA" },
+  { code: "YUL", city: "Montreal", name: "Montréal-Trudeau International", country: "CA" },
+  { code: "MEX", city: "Mexico City", name: "Benito Juárez International", country: "MX" },
+  { code: "CUN", city: "Cancún", name: "Cancún International", country: "MX" },
+  { code: "GRU", city: "São Paulo", name: "São Paulo/Guarulhos International", country: "BR" },
+  { code: "GIG", city: "Rio de Janeiro", name: "Rio de Janeiro/Galeão International", country: "BR" },
+  { code: "EZE", city: "Buenos Aires", name: "Ministro Pistarini International", country: "AR" },
+  { code: "SCL", city: "Santiago", name: "Arturo Merino Benítez International", country: "CL" },
+  { code: "BOG", city: "Bogotá", name: "El Dorado International", country: "CO" },
+  { code: "LIM", city: "Lima", name: "Jorge Chávez International", country: "PE" },
+  { code: "LHR", city: "London", name: "Heathrow", country: "GB" },
+  { code: "LGW", city: "London", name: "Gatwick", country: "GB" },
+  { code: "STN", city: "London", name: "Stansted", country: "GB" },
+  { code: "LCY", city: "London", name: "London City", country: "GB" },
+  { code: "MAN", city: "Manchester", name: "Manchester", country: "GB" },
+  { code: "EDI", city: "Edinburgh", name: "Edinburgh", country: "GB" },
+  { code: "DUB", city: "Dublin", name: "Dublin", country: "IE" },
+  { code: "CDG", city: "Paris", name: "Charles de Gaulle", country: "FR" },
+  { code: "ORY", city: "Paris", name: "Orly", country: "FR" },
+  { code: "NCE", city: "Nice", name: "Nice Côte d'Azur", country: "FR" },
+  { code: "LYS", city: "Lyon", name: "Lyon-Saint Exupéry", country: "FR" },
+  { code: "AMS", city: "Amsterdam", name: "Schiphol", country: "NL" },
+  { code: "EIN", city: "Eindhoven", name: "Eindhoven", country: "NL" },
+  { code: "RTM", city: "Rotterdam", name: "Rotterdam The Hague", country: "NL" },
+  { code: "BRU", city: "Brussels", name: "Brussels", country: "BE" },
+  { code: "LUX", city: "Luxembourg", name: "Luxembourg", country: "LU" },
+  { code: "FRA", city: "Frankfurt", name: "Frankfurt", country: "DE" },
+  { code: "MUC", city: "Munich", name: "Munich", country: "DE" },
+  { code: "BER", city: "Berlin", name: "Berlin Brandenburg", country: "DE" },
+  { code: "HAM", city: "Hamburg", name: "Hamburg", country: "DE" },
+  { code: "DUS", city: "Düsseldorf", name: "Düsseldorf", country: "DE" },
+  { code: "ZRH", city: "Zurich", name: "Zurich", country: "CH" },
+  { code: "GVA", city: "Geneva", name: "Geneva", country: "CH" },
+  { code: "VIE", city: "Vienna", name: "Vienna International", country: "AT" },
+  { code: "CPH", city: "Copenhagen", name: "Copenhagen", country: "DK" },
+  { code: "ARN", city: "Stockholm", name: "Stockholm Arlanda", country: "SE" },
+  { code: "OSL", city: "Oslo", name: "Oslo Gardermoen", country: "NO" },
+  { code: "HEL", city: "Helsinki", name: "Helsinki-Vantaa", country: "FI" },
+  { code: "KEF", city: "Reykjavík", name: "Keflavík International", country: "IS" },
+  { code: "MAD", city: "Madrid", name: "Adolfo Suárez Madrid-Barajas", country: "ES" },
+  { code: "BCN", city: "Barcelona", name: "Josep Tarradellas Barcelona-El Prat", country: "ES" },
+  { code: "PMI", city: "Palma de Mallorca", name: "Palma de Mallorca", country: "ES" },
+  { code: "AGP", city: "Málaga", name: "Málaga-Costa del Sol", country: "ES" },
+  { code: "LIS", city: "Lisbon", name: "Humberto Delgado", country: "PT" },
+  { code: "OPO", city: "Porto", name: "Francisco Sá Carneiro", country: "PT" },
+  { code: "FCO", city: "Rome", name: "Leonardo da Vinci-Fiumicino", country: "IT" },
+  { code: "MXP", city: "Milan", name: "Milan Malpensa", country: "IT" },
+  { code: "LIN", city: "Milan", name: "Milan Linate", country: "IT" },
+  { code: "VCE", city: "Venice", name: "Venice Marco Polo", country: "IT" },
+  { code: "NAP", city: "Naples", name: "Naples International", country: "IT" },
+  { code: "ATH", city: "Athens", name: "Athens International", country: "GR" },
+  { code: "IST", city: "Istanbul", name: "Istanbul", country: "TR" },
+  { code: "SAW", city: "Istanbul", name: "Sabiha Gökçen International", country: "TR" },
+  { code: "WAW", city: "Warsaw", name: "Warsaw Chopin", country: "PL" },
+  { code: "KRK", city: "Kraków", name: "Kraków John Paul II International", country: "PL" },
+  { code: "PRG", city: "Prague", name: "Václav Havel Airport Prague", country: "CZ" },
+  { code: "BUD", city: "Budapest", name: "Budapest Ferenc Liszt International", country: "HU" },
+  { code: "OTP", city: "Bucharest", name: "Henri Coandă International", country: "RO" },
+  { code: "DXB", city: "Dubai", name: "Dubai International", country: "AE" },
+  { code: "AUH", city: "Abu Dhabi", name: "Zayed International", country: "AE" },
+  { code: "DOH", city: "Doha", name: "Hamad International", country: "QA" },
+  { code: "TLV", city: "Tel Aviv", name: "Ben Gurion", country: "IL" },
+  { code: "CAI", city: "Cairo", name: "Cairo International", country: "EG" },
+  { code: "CMN", city: "Casablanca", name: "Mohammed V International", country: "MA" },
+  { code: "RAK", city: "Marrakesh", name: "Marrakesh Menara", country: "MA" },
+  { code: "JNB", city: "Johannesburg", name: "O. R. Tambo International", country: "ZA" },
+  { code: "CPT", city: "Cape Town", name: "Cape Town International", country: "ZA" },
+  { code: "NBO", city: "Nairobi", name: "Jomo Kenyatta International", country: "KE" },
+  { code: "ADD", city: "Addis Ababa", name: "Addis Ababa Bole International", country: "ET" },
+  { code: "LOS", city: "Lagos", name: "Murtala Muhammed International", country: "NG" },
+  { code: "DEL", city: "Delhi", name: "Indira Gandhi International", country: "IN" },
+  { code: "BOM", city: "Mumbai", name: "Chhatrapati Shivaji Maharaj International", country: "IN" },
+  { code: "BLR", city: "Bengaluru", name: "Kempegowda International", country: "IN" },
+  { code: "SIN", city: "Singapore", name: "Singapore Changi", country: "SG" },
+  { code: "KUL", city: "Kuala Lumpur", name: "Kuala Lumpur International", country: "MY" },
+  { code: "BKK", city: "Bangkok", name: "Suvarnabhumi", country: "TH" },
+  { code: "DMK", city: "Bangkok", name: "Don Mueang International", country: "TH" },
+  { code: "HKT", city: "Phuket", name: "Phuket International", country: "TH" },
+  { code: "CGK", city: "Jakarta", name: "Soekarno-Hatta International", country: "ID" },
+  { code: "DPS", city: "Denpasar", name: "Ngurah Rai International", country: "ID" },
+  { code: "MNL", city: "Manila", name: "Ninoy Aquino International", country: "PH" },
+  { code: "SGN", city: "Ho Chi Minh City", name: "Tan Son Nhat International", country: "VN" },
+  { code: "HAN", city: "Hanoi", name: "Noi Bai International", country: "VN" },
+  { code: "HKG", city: "Hong Kong", name: "Hong Kong International", country: "HK" },
+  { code: "TPE", city: "Taipei", name: "Taoyuan International", country: "TW" },
+  { code: "PEK", city: "Beijing", name: "Beijing Capital International", country: "CN" },
+  { code: "PKX", city: "Beijing", name: "Beijing Daxing International", country: "CN" },
+  { code: "PVG", city: "Shanghai", name: "Shanghai Pudong International", country: "CN" },
+  { code: "SHA", city: "Shanghai", name: "Shanghai Hongqiao International", country: "CN" },
+  { code: "CAN", city: "Guangzhou", name: "Guangzhou Baiyun International", country: "CN" },
+  { code: "ICN", city: "Seoul", name: "Incheon International", country: "KR" },
+  { code: "GMP", city: "Seoul", name: "Gimpo International", country: "KR" },
+  { code: "NRT", city: "Tokyo", name: "Narita International", country: "JP" },
+  { code: "HND", city: "Tokyo", name: "Haneda", country: "JP" },
+  { code: "KIX", city: "Osaka", name: "Kansai International", country: "JP" },
+  { code: "SYD", city: "Sydney", name: "Sydney Kingsford Smith", country: "AU" },
+  { code: "MEL", city: "Melbourne", name: "Melbourne", country: "AU" },
+  { code: "BNE", city: "Brisbane", name: "Brisbane", country: "AU" },
+  { code: "PER", city: "Perth", name: "Perth", country: "AU" },
+  { code: "AKL", city: "Auckland", name: "Auckland", country: "NZ" },
+];
@@ -0,0 +1,68 @@
+// The idle timeout of one upstream request. The registry keeps it instead of
+// the SDK so it can be paused while the travel server waits on the
+// downstream client: a person answering an elicitation may take minutes.
+export class CallDeadline {
+  private readonly controller = new AbortController();
+  private timer?: NodeJS.Timeout;
+  private pauses = 0;
+  private waited = false;
+
+  constructor(readonly timeoutMs: number) {
+    this.arm();
+  }
+
+  // Aborted once the timeout elapses
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get expired(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  // True once the call has been paused for the downstream client
+  get waitedOnClient(): boolean {
+    return this.waited;
+  }
+
+  // Restarts the timeout, e.g. when the server reports progress.
+  touch() {
+    if (this.pauses === 0) {
+      this.arm();
+    }
+  }
+
+  // Stops the clock until the returned function is called; the timeout then
+  // restarts in full.
+  pause(): () => void {
+    this.pauses++;
+    this.waited = true;
+    clearTimeout(this.timer);
+
+    let resumed = false;
+    return () => {
+      if (resumed) {
+        return;
+      }
+      resumed = true;
+      this.pauses--;
+      this.touch();
+    };
+  }
+
+  dispose() {
+    clearTimeout(this.timer);
+  }
+
+  private arm() {
+    clearTimeout(this.timer);
+    if (this.expired) {
+      return;
+    }
+    this.timer = setTimeout(
+      () => this.controller.abort(new Error(`No answer within ${this.timeoutMs}ms`)),
+      this.timeoutMs
+    );
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,100 @@
+import { GatewayError, GatewayErrorCode } from "../errors.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerPolicy {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30 * 1000,
+};
+
+// `data.retryAfter` is the number of seconds until a trial call is let
+// through again.
+export class CircuitOpenError extends GatewayError {
+  constructor(
+    readonly serverId: string,
+    readonly retryAfterMs: number
+  ) {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    super(
+      GatewayErrorCode.CircuitOpen,
+      `Travel server "${serverId}" is degraded (circuit open); retry in ${retryAfter}s`,
+      { serverId, retryAfter }
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly serverId: string,
+    private readonly policy: CircuitBreakerPolicy
+  ) {}
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.policy.resetTimeoutMs
+    ) {
+      this.state = "half-open";
+    }
+    return this.state;
+  }
+
+  getConsecutiveFailures(): number {
+    return this.consecutiveFailures;
+  }
+
+  // Throws CircuitOpenError when calls should fail fast. In half-open state a
+  // single trial call is let through to decide whether to close again.
+  acquire() {
+    const state = this.getState();
+    if (state === "closed") {
+      return;
+    }
+
+    if (state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    const retryAfterMs = Math.max(
+      0,
+      this.policy.resetTimeoutMs - (Date.now() - this.openedAt)
+    );
+    throw new CircuitOpenError(this.serverId, retryAfterMs);
+  }
+
+  recordSuccess() {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.state = "closed";
+  }
+
+  // Releases a half-open trial without deciding the circuit, e.g. when the
+  // caller cancelled before the server answered.
+  release() {
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.policy.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { AIRPORTS } from "./airports.js";
+
+const MAX_COMPLETION_VALUES = 100;
+const MAX_RECENT_SEARCH_IDS = 20;
+
+const SEARCH_ID_PATTERN = /"search_id"\s*:\s*"([^"]+)"/g;
+const AIRPORT_ARGUMENT_PATTERN =
+  /^(departure_id|arrival_id|origin|destination|from|to|airport|iata(_code)?)$/i;
+
+export interface CompletionValues {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+// Completions the gateway answers itself when the owning travel server has
+// none: search ids the caller produced earlier and IATA airport codes.
+export class GatewayCompleter {
+  private readonly recentSearchIds = new Map<string, string[]>();
+
+  // Remembers search ids found in a tool result, newest first.
+  recordToolResult(userId: string, result: unknown) {
+    const found = this.extractSearchIds(result);
+    if (found.length === 0) {
+      return;
+    }
+
+    const recent = this.recentSearchIds.get(userId) ?? [];
+    const merged = [...found.reverse(), ...recent].filter(
+      (id, index, all) => all.indexOf(id) === index
+    );
+    this.recentSearchIds.set(userId, merged.slice(0, MAX_RECENT_SEARCH_IDS));
+  }
+
+  complete(
+    userId: string,
+    argumentName: string,
+    value: string
+  ): CompletionValues | undefined {
+    if (argumentName === "search_id") {
+      const recent = this.recentSearchIds.get(userId) ?? [];
+      return this.toCompletion(recent.filter((id) => id.startsWith(value)));
+    }
+
+    if (AIRPORT_ARGUMENT_PATTERN.test(argumentName)) {
+      const query = value.trim().toLowerCase();
+      const codes = AIRPORTS.filter(
+        (airport) =>
+          airport.code.toLowerCase().startsWith(query) ||
+          airport.city.toLowerCase().startsWith(query)
+      ).map((airport) => airport.code);
+      return this.toCompletion(codes);
+    }
+
+    return undefined;
+  }
+
+  private extractSearchIds(result: unknown): string[] {
+    const { content, structuredContent } = (result ?? {}) as {
+      content?: { type: string; text?: string }[];
+      structuredContent?: { search_id?: unknown };
+    };
+
+    const ids: string[] = [];
+    if (typeof structuredContent?.search_id === "string") {
+      ids.push(structuredContent.search_id);
+    }
+    for (const item of content ?? []) {
+      if (item.type === "text" && item.text) {
+        for (const match of item.text.matchAll(SEARCH_ID_PATTERN)) {
+          ids.push(match[1]);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private toCompletion(values: string[]): CompletionValues {
+    return {
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETION_VALUES,
+    };
+  }
+}
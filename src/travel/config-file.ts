@@ -0,0 +1,334 @@
+import fs from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { LineCounter, parseDocument } from "yaml";
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { Permission } from "../auth/authorization.js";
+import { logger } from "../helpers/logs.js";
+import type { RemoteServerConfig } from "./registry.js";
+
+const log = logger("travel-config");
+
+const RELOAD_DEBOUNCE_MS = 250;
+
+const PermissionListSchema = z.array(z.nativeEnum(Permission));
+
+const BaseServerSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9_-]+$/),
+  title: z.string().min(1),
+  toolPrefix: z.string().regex(/^[a-zA-Z0-9_-]+$/).optional(),
+  permissions: PermissionListSchema.optional(),
+  resourcePermissions: PermissionListSchema.optional(),
+  promptPermissions: PermissionListSchema.optional(),
+  resourceTemplatePermissions: z.record(PermissionListSchema).optional(),
+  collisionPolicy: z.enum(["fail", "suffix", "priority"]).optional(),
+  priority: z.number().int().optional(),
+  restart: z
+    .union([
+      z.literal(false),
+      z
+        .object({
+          maxRestarts: z.number().int().nonnegative(),
+          windowMs: z.number().int().positive(),
+          initialDelayMs: z.number().int().positive(),
+          maxDelayMs: z.number().int().positive(),
+        })
+        .partial(),
+    ])
+    .optional(),
+  required: z.boolean().optional(),
+  startupTimeoutMs: z.number().int().positive().optional(),
+  callTimeoutMs: z.number().int().positive().optional(),
+  maxCallDurationMs: z.number().int().positive().optional(),
+  healthCheck: z
+    .union([
+      z.literal(false),
+      z
+        .object({
+          intervalMs: z.number().int().positive(),
+          timeoutMs: z.number().int().positive(),
+        })
+        .partial(),
+    ])
+    .optional(),
+  circuitBreaker: z
+    .object({
+      failureThreshold: z.number().int().positive(),
+      resetTimeoutMs: z.number().int().positive(),
+    })
+    .partial()
+    .optional(),
+  sampling: z.boolean().optional(),
+  elicitation: z.boolean().optional(),
+  schemaValidation: z.enum(["strict", "warn", "off"]).optional(),
+  coalesce: z.boolean().optional(),
+  quotas: z
+    .array(
+      z
+        .object({
+          id: z
+            .string()
+            .regex(/^[\w.:+*-]+$/, "use letters, digits and . : + * - _")
+            .optional(),
+          tool: z.string().min(1).optional(),
+          roles: z.array(z.string().min(1)).optional(),
+          limit: z.number().int().nonnegative(),
+          windowMs: z.number().int().positive().optional(),
+        })
+        .strict()
+        .refine((quota) => quota.limit === 0 || quota.windowMs !== undefined, {
+          message: "windowMs is required unless limit is 0",
+          path: ["windowMs"],
+        })
+    )
+    .optional(),
+  cache: z
+    .object({
+      ttlMs: z.number().int().positive().optional(),
+      tools: z
+        .record(z.union([z.number().int().positive(), z.literal(false)]))
+        .optional(),
+    })
+    .optional(),
+});
+
+const StdioServerSchema = BaseServerSchema.extend({
+  transport: z.literal("stdio").optional(),
+  // Defaults to PYTHON_BIN, then python3 (python on Windows)
+  command: z.string().min(1).optional(),
+  args: z.array(z.string()).optional(),
+  cwd: z.string().min(1),
+  env: z.record(z.string()).optional(),
+  envKeys: z.array(z.string()).optional(),
+}).strict();
+
+const HttpServerSchema = BaseServerSchema.extend({
+  transport: z.enum(["http", "sse"]),
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+  auth: z
+    .discriminatedUnion("type", [
+      z.object({
+        type: z.literal("bearer"),
+        token: z.string().optional(),
+        tokenEnv: z.string().optional(),
+      }),
+      z.object({
+        type: z.literal("apiKey"),
+        header: z.string().min(1),
+        key: z.string().optional(),
+        keyEnv: z.string().optional(),
+      }),
+    ])
+    .optional(),
+}).strict();
+
+const GatewayConfigSchema = z.object({
+  servers: z.array(z.unknown()),
+});
+
+type ServerEntry =
+  | z.infer<typeof StdioServerSchema>
+  | z.infer<typeof HttpServerSchema>;
+
+// Pick the schema from the transport discriminator so issues point at the
+// offending field instead of a generic union mismatch.
+function validateServers(value: unknown): {
+  servers: ServerEntry[];
+  issues: z.ZodIssue[];
+} {
+  const root = GatewayConfigSchema.safeParse(value);
+  if (!root.success) {
+    return { servers: [], issues: root.error.issues };
+  }
+
+  const servers: ServerEntry[] = [];
+  const issues: z.ZodIssue[] = [];
+  const seen = new Set<string>();
+
+  root.data.servers.forEach((entry, index) => {
+    const transport = (entry as { transport?: unknown } | null)?.transport;
+    const schema =
+      transport === "http" || transport === "sse"
+        ? HttpServerSchema
+        : StdioServerSchema;
+    const result = schema.safeParse(entry);
+
+    if (!result.success) {
+      issues.push(
+        ...result.error.issues.map((issue) => ({
+          ...issue,
+          path: ["servers", index, ...issue.path],
+        }))
+      );
+      return;
+    }
+
+    if (seen.has(result.data.id)) {
+      issues.push({
+        code: z.ZodIssueCode.custom,
+        path: ["servers", index, "id"],
+        message: `Duplicate server id "${result.data.id}"`,
+      });
+      return;
+    }
+
+    seen.add(result.data.id);
+    servers.push(result.data);
+  });
+
+  return { servers, issues };
+}
+
+export interface ConfigIssue {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      issues
+        .map((issue) => `${issue.file}:${issue.line}:${issue.column} ${issue.message}`)
+        .join("\n")
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+export const defaultPythonBinary =
+  process.env.PYTHON_BIN ?? (process.platform === "win32" ? "python" : "python3");
+
+// JSON is valid YAML, so one parser covers both formats and reports positions.
+export function loadGatewayConfig(filePath: string): RemoteServerConfig[] {
+  const tracer = trace.getTracer("travel-config");
+  const span = tracer.startSpan("config.load", {
+    attributes: { "config.file": filePath },
+  });
+
+  try {
+    const file = path.resolve(filePath);
+    const source = fs.readFileSync(file, "utf8");
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+
+    if (doc.errors.length > 0) {
+      throw new ConfigValidationError(
+        doc.errors.map((error) => {
+          const position = lineCounter.linePos(error.pos[0]);
+          return {
+            file,
+            line: position.line,
+            column: position.col,
+            message: error.message,
+          };
+        })
+      );
+    }
+
+    const { servers: entries, issues } = validateServers(doc.toJS());
+    if (issues.length > 0) {
+      throw new ConfigValidationError(
+        issues.map((issue) => {
+          // Walk up the path until a node with a source position is found
+          let offset = 0;
+          for (let depth = issue.path.length; depth >= 0; depth--) {
+            const node = doc.getIn(issue.path.slice(0, depth), true) as
+              | { range?: [number, number, number] }
+              | undefined;
+            if (node?.range) {
+              offset = node.range[0];
+              break;
+            }
+          }
+          const position = lineCounter.linePos(offset);
+          return {
+            file,
+            line: position.line,
+            column: position.col,
+            message: `${issue.path.join(".") || "<root>"}: ${issue.message}`,
+          };
+        })
+      );
+    }
+
+    const baseDir = path.dirname(file);
+    const servers = entries.map((server): RemoteServerConfig => {
+      if (server.transport === "http" || server.transport === "sse") {
+        return server as z.infer<typeof HttpServerSchema>;
+      }
+      const stdio = server as z.infer<typeof StdioServerSchema>;
+      return {
+        ...stdio,
+        command: stdio.command ?? defaultPythonBinary,
+        cwd: path.resolve(baseDir, stdio.cwd),
+      };
+    });
+
+    span.setAttribute("config.servers.count", servers.length);
+    span.setStatus({ code: SpanStatusCode.OK });
+    return servers;
+  } catch (error) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+export function watchGatewayConfig(
+  filePath: string,
+  onChange: (configs: RemoteServerConfig[]) => void | Promise<void>
+): () => void {
+  const file = path.resolve(filePath);
+  let timer: NodeJS.Timeout | undefined;
+  let queue = Promise.resolve();
+
+  const reload = async () => {
+    const tracer = trace.getTracer("travel-config");
+    const span = tracer.startSpan("config.reload", {
+      attributes: { "config.file": file },
+    });
+
+    try {
+      const configs = loadGatewayConfig(file);
+      await onChange(configs);
+      span.setStatus({ code: SpanStatusCode.OK });
+      log.success(`Reloaded travel server configuration from ${file}`);
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      log.error(
+        `Keeping previous travel server configuration; ${file} is invalid:\n${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      span.end();
+    }
+  };
+
+  // Watch the directory so editors that replace the file on save still trigger
+  const watcher = fs.watch(path.dirname(file), (_event, changed) => {
+    if (changed && path.basename(changed.toString()) !== path.basename(file)) {
+      return;
+    }
+    clearTimeout(timer);
+    // Serialize reloads so two quick edits never apply out of order
+    timer = setTimeout(() => {
+      queue = queue.then(reload);
+    }, RELOAD_DEBOUNCE_MS);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -1,11 +1,9 @@
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { Permission } from "../auth/authorization.js";
+import { defaultPythonBinary, loadGatewayConfig } from "./config-file.js";
 import type { RemoteServerConfig } from "./registry.js";
 
-const defaultPythonBinary =
-  process.env.PYTHON_BIN ?? (process.platform === "win32" ? "python" : "python3");
-
 const travelRoot = path.resolve(
   path.dirname(fileURLToPath(import.meta.url)),
   "../../travel-servers"
@@ -67,6 +65,11 @@ export const travelServerConfigs: RemoteServerConfig[] = [
     args: ["geocoder_server.py"],
     cwd: path.join(travelRoot, "geocoder_server"),
     toolPrefix: "geo",
+    required: true,
+    cache: {
+      // Distances between two points never change
+      tools: { calculate_distance: 24 * 60 * 60 * 1000 },
+    },
     permissions: [Permission.CALL_TOOLS],
     resourcePermissions: [Permission.READ_RESOURCES],
     promptPermissions: [Permission.GET_PROMPTS],
@@ -84,3 +87,9 @@ export const travelServerConfigs: RemoteServerConfig[] = [
     promptPermissions: [Permission.GET_PROMPTS],
   },
 ];
+
+// TRAVEL_CONFIG_FILE points at a JSON or YAML file that replaces the defaults.
+export function loadTravelServerConfigs(): RemoteServerConfig[] {
+  const configFile = process.env.TRAVEL_CONFIG_FILE;
+  return configFile ? loadGatewayConfig(configFile) : travelServerConfigs;
+}
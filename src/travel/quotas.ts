@@ -0,0 +1,158 @@
+import { Span } from "@opentelemetry/api";
+import { PermissionDeniedError, QuotaExceededError } from "../errors.js";
+import type { CounterStore } from "../rate-limit/store.js";
+import { logger } from "../helpers/logs.js";
+
+const log = logger("quotas");
+
+// Counter keys are "quota:<policy id>|<user id>".
+const KEY_PREFIX = "quota:";
+
+// A limit on how often each user may call a server's tools. Without `tool`
+// the limit covers all of the server's tools together; without `roles` it
+// applies to every user. A limit of 0 denies the tool outright and needs no
+// window.
+export interface QuotaPolicy {
+  id?: string;
+  tool?: string;
+  roles?: string[];
+  limit: number;
+  windowMs?: number;
+}
+
+export interface ResolvedQuotaPolicy extends QuotaPolicy {
+  id: string;
+  serverId: string;
+  // 0 for policies that deny the tool outright
+  windowMs: number;
+}
+
+export interface QuotaUsage {
+  policyId: string;
+  userId: string;
+  count: number;
+  limit: number | null;
+  resetAt: string;
+}
+
+// Throws on a policy without a usable limit or window. Config files are
+// checked by their schema already, the built-in defaults only here.
+export function resolveQuotaPolicies(
+  serverId: string,
+  policies: QuotaPolicy[] = []
+): ResolvedQuotaPolicy[] {
+  return policies.map((policy) => {
+    const id =
+      policy.id ??
+      [serverId, policy.tool ?? "*", ...(policy.roles ? [policy.roles.join("+")] : [])].join(":");
+
+    if (!Number.isInteger(policy.limit) || policy.limit < 0) {
+      throw new Error(
+        `Quota "${id}" of travel server "${serverId}" needs a limit of 0 or more`
+      );
+    }
+    if (policy.limit === 0) {
+      return { ...policy, serverId, id, windowMs: 0 };
+    }
+    if (
+      policy.windowMs === undefined ||
+      !Number.isInteger(policy.windowMs) ||
+      policy.windowMs <= 0
+    ) {
+      throw new Error(
+        `Quota "${id}" of travel server "${serverId}" needs a positive windowMs unless its limit is 0`
+      );
+    }
+    return { ...policy, serverId, id, windowMs: policy.windowMs };
+  });
+}
+
+export interface QuotaSubject {
+  userId: string;
+  role?: string;
+  toolName: string;
+  remoteName: string;
+}
+
+export class QuotaManager {
+  constructor(readonly store: CounterStore) {}
+
+  // Counts one call against every matching policy, or throws without
+  // counting anything when one of them is exhausted.
+  async consume(
+    span: Span,
+    policies: ResolvedQuotaPolicy[],
+    subject: QuotaSubject
+  ): Promise<void> {
+    const matching = policies.filter(
+      (policy) =>
+        (!policy.tool || policy.tool === subject.remoteName) &&
+        (!policy.roles || (subject.role !== undefined && policy.roles.includes(subject.role)))
+    );
+    span.setAttribute("quota.policies", matching.map((policy) => policy.id).join(","));
+
+    const counted: string[] = [];
+    try {
+      for (const policy of matching) {
+        if (policy.limit === 0) {
+          span.addEvent("quota.denied", { "quota.policy": policy.id });
+          throw new PermissionDeniedError(
+            `Quota "${policy.id}" does not allow calls to tool: ${subject.toolName}`
+          );
+        }
+
+        const key = `${KEY_PREFIX}${policy.id}|${subject.userId}`;
+        const counter = await this.store.increment(key, policy.windowMs);
+        counted.push(key);
+        if (counter.count > policy.limit) {
+          const retryAfter = Math.max(1, Math.ceil((counter.resetAt - Date.now()) / 1000));
+          span.addEvent("quota.exceeded", {
+            "quota.policy": policy.id,
+            "quota.limit": policy.limit,
+            "quota.retry_after_s": retryAfter,
+          });
+          throw new QuotaExceededError(policy.id, policy.limit, policy.windowMs, retryAfter);
+        }
+        span.addEvent("quota.consumed", {
+          "quota.policy": policy.id,
+          "quota.count": counter.count,
+          "quota.limit": policy.limit,
+        });
+      }
+    } catch (error) {
+      // Best effort: a failed rollback must not hide why the call failed
+      const rollbacks = await Promise.allSettled(
+        counted.map((key) => this.store.decrement(key))
+      );
+      for (const rollback of rollbacks) {
+        if (rollback.status === "rejected") {
+          span.addEvent("quota.rollback_failed");
+          log.warn("Failed to roll back a quota counter:", rollback.reason);
+        }
+      }
+      throw error;
+    }
+  }
+
+  async listUsage(policies: ResolvedQuotaPolicy[]): Promise<QuotaUsage[]> {
+    const limits = new Map(policies.map((policy) => [policy.id, policy.limit]));
+    const counters = await this.store.list(KEY_PREFIX);
+
+    return counters
+      .filter((counter) => counter.count > 0)
+      .map((counter) => {
+        const key = counter.key.slice(KEY_PREFIX.length);
+        const separator = key.indexOf("|");
+        const policyId = key.slice(0, separator);
+        return {
+          policyId,
+          userId: key.slice(separator + 1),
+          count: counter.count,
+          // null once the policy has been removed from the configuration
+          limit: limits.get(policyId) ?? null,
+          resetAt: new Date(counter.resetAt).toISOString(),
+        };
+      })
+      .sort((a, b) => a.policyId.localeCompare(b.policyId) || a.userId.localeCompare(b.userId));
+  }
+}
@@ -1,30 +1,261 @@
+import EventEmitter from "node:events";
+import { StringDecoder } from "node:string_decoder";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  CallToolResultSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  LoggingMessageNotificationSchema,
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import type {
   Tool,
   Resource,
+  ResourceTemplate,
   Prompt,
   ReadResourceResult,
   GetPromptResult,
+  Progress,
+  ProgressNotification,
+  ProgressToken,
+  ClientCapabilities,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  CompleteRequest,
+  CompleteResult,
+  LoggingLevel,
 } from "@modelcontextprotocol/sdk/types.js";
-import { SpanStatusCode, trace } from "@opentelemetry/api";
+import { Span, SpanStatusCode, metrics, trace } from "@opentelemetry/api";
 import { logger } from "../helpers/logs.js";
+import { scrubSecrets } from "../helpers/secrets.js";
+import {
+  GatewayTimeoutError,
+  InvalidParamsError,
+  ResourceNotFoundError,
+} from "../errors.js";
 import { Permission } from "../auth/authorization.js";
+import {
+  CircuitBreaker,
+  CircuitBreakerPolicy,
+  CircuitState,
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+} from "./circuit-breaker.js";
+import { SchemaValidationMode, SchemaValidator } from "./schema-validator.js";
+import {
+  ResponseCache,
+  ToolCacheConfig,
+  toolCallKey,
+} from "./response-cache.js";
+import { SingleFlight } from "./single-flight.js";
+import { CallDeadline } from "./call-deadline.js";
+import {
+  QuotaManager,
+  QuotaPolicy,
+  QuotaUsage,
+  ResolvedQuotaPolicy,
+  resolveQuotaPolicies,
+} from "./quotas.js";
 
 const log = logger("travel-registry");
 
-export interface RemoteServerConfig {
+export interface RestartPolicy {
+  maxRestarts: number;
+  windowMs: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  maxRestarts: 5,
+  windowMs: 10 * 60 * 1000,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+};
+
+const DEFAULT_STARTUP_TIMEOUT_MS = 30 * 1000;
+// Below the 30s connect-timeout middleware so callers get a useful error
+const DEFAULT_CALL_TIMEOUT_MS = 25 * 1000;
+// Progress restarts a tool call's timeout, but never past this
+const DEFAULT_MAX_CALL_DURATION_MS = 5 * 60 * 1000;
+// A stderr "line" without a newline is flushed once it grows this long
+const MAX_STDERR_LINE_LENGTH = 64 * 1024;
+
+export interface HealthCheckPolicy {
+  intervalMs: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_HEALTH_CHECK_POLICY: HealthCheckPolicy = {
+  intervalMs: 30 * 1000,
+  timeoutMs: 5 * 1000,
+};
+
+export type CollisionPolicy = "fail" | "suffix" | "priority";
+
+export type ConflictKind = "tool" | "resource" | "resourceTemplate" | "prompt";
+
+export interface NameConflict {
+  kind: ConflictKind;
+  name: string;
+  existingServerId: string;
+  incomingServerId: string;
+  policy: CollisionPolicy;
+  resolution: "rejected" | "suffixed" | "replaced" | "kept";
+  exposedName?: string;
+  detectedAt: string;
+}
+
+// Secrets can be given inline or, preferably, as the name of an env variable.
+export type UpstreamAuthConfig =
+  | { type: "bearer"; token?: string; tokenEnv?: string }
+  | { type: "apiKey"; header: string; key?: string; keyEnv?: string };
+
+interface BaseServerConfig {
+  id: string;
+  title: string;
+  toolPrefix?: string;
+  permissions?: Permission[];
+  resourcePermissions?: Permission[];
+  promptPermissions?: Permission[];
+  // How to resolve names or URIs another server already registered; the
+  // default "fail" rejects the server's whole catalog of that kind.
+  collisionPolicy?: CollisionPolicy;
+  // Used by the "priority" policy: the higher value keeps the name.
+  priority?: number;
+  // Overrides resourcePermissions for specific URI templates, keyed by template.
+  resourceTemplatePermissions?: Record<string, Permission[]>;
+  // Set to false to leave a crashed server offline instead of relaunching it.
+  restart?: Partial<RestartPolicy> | false;
+  // Required servers abort gateway startup when they fail to launch.
+  required?: boolean;
+  startupTimeoutMs?: number;
+  // Upper bound for each tools/call, resources/read and prompts/get. A
+  // progress notification restarts it for tools/call, up to
+  // maxCallDurationMs in total.
+  callTimeoutMs?: number;
+  maxCallDurationMs?: number;
+  // Periodic MCP ping; set to false to disable.
+  healthCheck?: Partial<HealthCheckPolicy> | false;
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+  // Let the server send sampling/createMessage or elicitation/create to the
+  // downstream session whose tool call it is handling.
+  sampling?: boolean;
+  elicitation?: boolean;
+  // Check tool arguments against inputSchema and structuredContent against
+  // outputSchema. "strict" rejects violations, "warn" (default) only records.
+  schemaValidation?: SchemaValidationMode;
+  cache?: ToolCacheConfig;
+  // Share one upstream call between identical concurrent tool calls. By
+  // default only tools annotated read-only or idempotent are shared; true
+  // shares every tool of the server, false none.
+  coalesce?: boolean;
+  // Per-user call limits on this server's tools, enforced before the cache.
+  quotas?: QuotaPolicy[];
+}
+
+export interface TravelRegistryOptions {
+  // Serves repeated calls to cacheable tools without reaching the server.
+  cache?: ResponseCache;
+  quotas?: QuotaManager;
+}
+
+// The downstream session a tool call came from; server-to-client requests
+// the travel server makes while handling the call are proxied back to it.
+export interface DownstreamOrigin {
+  sessionId?: string;
+  userId: string;
+  capabilities?: ClientCapabilities;
+  createMessage(
+    params: CreateMessageRequest["params"],
+    signal: AbortSignal
+  ): Promise<CreateMessageResult>;
+  elicitInput(
+    params: ElicitRequest["params"],
+    signal: AbortSignal
+  ): Promise<ElicitResult>;
+}
+
+export interface CallToolOptions {
+  // Aborting cancels the upstream request with notifications/cancelled
+  signal?: AbortSignal;
+  // Child progress is re-sent downstream under the caller's token
+  progress?: {
+    token: ProgressToken;
+    notify: (notification: ProgressNotification) => Promise<void>;
+  };
+  origin?: DownstreamOrigin;
+  // Quotas are counted against this user
+  user?: { id: string; role?: string };
+}
+
+// A log line from a travel server, already scrubbed of secrets.
+export interface ServerLogEntry {
+  serverId: string;
+  level: LoggingLevel;
+  data: unknown;
+}
+
+export type ServerStatus = "up" | "restarting" | "failed";
+
+export interface ServerHealth {
   id: string;
   title: string;
+  required: boolean;
+  status: ServerStatus;
+  connected: boolean;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  toolCount: number;
+  lastError?: string;
+  lastPingAt?: string;
+  lastSuccessfulPingAt?: string;
+}
+
+// A local child process speaking MCP over stdin/stdout.
+export interface StdioServerConfig extends BaseServerConfig {
+  transport?: "stdio";
   command: string;
   args?: string[];
   cwd: string;
-  toolPrefix?: string;
   env?: Record<string, string>;
   envKeys?: string[];
-  permissions?: Permission[];
-  resourcePermissions?: Permission[];
-  promptPermissions?: Permission[];
+}
+
+// An MCP server already running elsewhere, over Streamable HTTP or legacy SSE.
+export interface HttpServerConfig extends BaseServerConfig {
+  transport: "http" | "sse";
+  url: string;
+  headers?: Record<string, string>;
+  auth?: UpstreamAuthConfig;
+}
+
+export type RemoteServerConfig = StdioServerConfig | HttpServerConfig;
+
+export function isHttpServerConfig(
+  config: RemoteServerConfig
+): config is HttpServerConfig {
+  return config.transport === "http" || config.transport === "sse";
+}
+
+export interface DegradedServer {
+  id: string;
+  title: string;
+  required: boolean;
+  error: string;
+  since: string;
 }
 
 interface ToolRegistration {
@@ -41,6 +272,13 @@ interface ResourceRegistration {
   permissions: Permission[];
 }
 
+interface ResourceTemplateRegistration {
+  template: ResourceTemplate;
+  matcher: UriTemplate;
+  serverId: string;
+  permissions: Permission[];
+}
+
 interface PromptRegistration {
   prompt: Prompt;
   serverId: string;
@@ -50,38 +288,162 @@ interface PromptRegistration {
 
 interface ProcessRegistration {
   config: RemoteServerConfig;
-  transport: StdioClientTransport;
+  transport: Transport;
   client: Client;
 }
 
-export class TravelRegistry {
+// What each connected server last listed, before names are resolved.
+interface ServerCatalog {
+  tools?: Tool[];
+  resources?: Resource[];
+  resourceTemplates?: ResourceTemplate[];
+  prompts?: Prompt[];
+}
+
+interface DegradedState {
+  error: string;
+  since: number;
+}
+
+interface HealthState {
+  breaker: CircuitBreaker;
+  timer?: NodeJS.Timeout;
+  lastError?: string;
+  lastPingAt?: number;
+  lastSuccessfulPingAt?: number;
+}
+
+interface SupervisorState {
+  crashes: number[];
+  timer?: NodeJS.Timeout;
+  gaveUp: boolean;
+}
+
+type CatalogKind = "tools" | "resources" | "prompts";
+
+const CATALOG_EVENTS: Record<CatalogKind, string> = {
+  tools: "toolListChanged",
+  resources: "resourceListChanged",
+  prompts: "promptListChanged",
+};
+
+export class TravelRegistry extends EventEmitter {
   private readonly registry = new Map<string, ToolRegistration>();
   private readonly resources = new Map<string, ResourceRegistration>();
-  private readonly resourceSchemes = new Map<
+  private readonly resourceTemplates = new Map<
     string,
-    { serverId: string; permissions: Permission[] }
+    ResourceTemplateRegistration
   >();
   private readonly prompts = new Map<string, PromptRegistration>();
   private readonly processes = new Map<string, ProcessRegistration>();
-
-  constructor(private readonly configs: RemoteServerConfig[]) {}
+  private readonly supervisors = new Map<string, SupervisorState>();
+  private readonly degraded = new Map<string, DegradedState>();
+  private readonly catalogs = new Map<string, ServerCatalog>();
+  private readonly conflicts = new Map<string, NameConflict>();
+  // Servers stopped for a "fail" policy collision, kept until their config
+  // or the owner of the name changes
+  private readonly rejectedServers = new Map<string, NameConflict[]>();
+  private readonly health = new Map<string, HealthState>();
+  private readonly inFlightCalls = new Set<Promise<unknown>>();
+  private readonly deadlines = new Map<string, Set<CallDeadline>>();
+  private readonly origins = new Map<string, Set<DownstreamOrigin>>();
+  private readonly schemaValidator = new SchemaValidator();
+  private readonly toolFlights = new SingleFlight<CallToolResult>();
+  private readonly toolCallCounter = metrics
+    .getMeter("travel-registry")
+    .createCounter("travel.tool.calls", {
+      description: "Tool calls forwarded upstream or coalesced with one in flight",
+    });
+  private shuttingDown = false;
+
+  constructor(
+    private configs: RemoteServerConfig[],
+    private readonly options: TravelRegistryOptions = {}
+  ) {
+    super();
+    // Built-in defaults skip the config file schema; catch bad quotas here
+    this.getQuotaPolicies();
+
+    metrics
+      .getMeter("travel-registry")
+      .createObservableGauge("travel.tool.coalescing_ratio", {
+        description: "Share of tool calls that joined an identical call in flight",
+        unit: "1",
+      })
+      .addCallback((result) =>
+        result.observe(this.toolFlights.getCoalescingRatio())
+      );
+  }
 
   async start() {
     const tracer = trace.getTracer("travel-registry");
     const span = tracer.startSpan("registry.start");
 
     try {
-      for (const cfg of this.configs) {
-        await this.launchServer(cfg);
+      const results = await Promise.allSettled(
+        this.configs.map((cfg) => this.launchServer(cfg))
+      );
+
+      const requiredFailures: string[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          return;
+        }
+
+        const cfg = this.configs[index];
+        const message =
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason);
+
+        span.addEvent("registry.start.server_failed", {
+          "server.id": cfg.id,
+          "server.required": !!cfg.required,
+          "error.message": message,
+        });
+
+        if (cfg.required) {
+          requiredFailures.push(`${cfg.id}: ${message}`);
+          return;
+        }
+
+        log.warn(
+          `Travel server "${cfg.id}" failed to start and is degraded:`,
+          message
+        );
+        this.scheduleRestart(cfg);
+      });
+
+      span.setAttribute("registry.degraded.count", this.degraded.size);
+
+      if (requiredFailures.length > 0) {
+        await this.shutdown().catch(() => undefined);
+        throw new Error(
+          `Required travel servers failed to start: ${requiredFailures.join("; ")}`
+        );
       }
 
       await this.listResources().catch((error) => {
         log.warn("Unable to prefetch travel resources:", error);
       });
+      await this.listResourceTemplates().catch((error) => {
+        log.warn("Unable to prefetch travel resource templates:", error);
+      });
       await this.listPrompts().catch((error) => {
         log.warn("Unable to prefetch travel prompts:", error);
       });
 
+      const rejected = await this.stopRejectedServers();
+      const requiredRejections = this.configs
+        .filter((cfg) => cfg.required && rejected.has(cfg.id))
+        .map((cfg) => `${cfg.id}: ${rejected.get(cfg.id)}`);
+      if (requiredRejections.length > 0) {
+        await this.shutdown().catch(() => undefined);
+        throw new Error(
+          `Required travel servers failed to start: ${requiredRejections.join("; ")}`
+        );
+      }
+
       span.setAttribute("registry.tool.count", this.registry.size);
       span.setStatus({
         code: SpanStatusCode.OK,
@@ -98,10 +460,163 @@ export class TravelRegistry {
     }
   }
 
+  getDegradedServers(): DegradedServer[] {
+    return this.configs
+      .filter((cfg) => this.degraded.has(cfg.id))
+      .map((cfg) => {
+        const state = this.degraded.get(cfg.id)!;
+        return {
+          id: cfg.id,
+          title: cfg.title,
+          required: !!cfg.required,
+          error: state.error,
+          since: new Date(state.since).toISOString(),
+        };
+      });
+  }
+
+  // Add, remove or restart only the servers whose config entry changed.
+  async applyConfigs(nextConfigs: RemoteServerConfig[]) {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.applyConfigs");
+
+    try {
+      for (const cfg of nextConfigs) {
+        resolveQuotaPolicies(cfg.id, cfg.quotas);
+      }
+
+      const previous = new Map(this.configs.map((cfg) => [cfg.id, cfg]));
+      const next = new Map(nextConfigs.map((cfg) => [cfg.id, cfg]));
+
+      const removed = [...previous.keys()].filter((id) => !next.has(id));
+      const added = [...next.keys()].filter((id) => !previous.has(id));
+      const changed = [...next.keys()].filter(
+        (id) =>
+          previous.has(id) &&
+          JSON.stringify(previous.get(id)) !== JSON.stringify(next.get(id))
+      );
+
+      span.setAttributes({
+        "registry.config.removed": removed.join(","),
+        "registry.config.added": added.join(","),
+        "registry.config.changed": changed.join(","),
+      });
+
+      // Keep unchanged entries by identity so pending restarts stay valid
+      this.configs = nextConfigs.map((cfg) =>
+        added.includes(cfg.id) || changed.includes(cfg.id)
+          ? cfg
+          : previous.get(cfg.id)!
+      );
+
+      for (const id of [...removed, ...changed]) {
+        await this.stopServer(id);
+      }
+
+      // A server rejected for a name collision gets another chance once
+      // other entries change, since the owner of the name may be gone
+      const retried =
+        removed.length + changed.length > 0
+          ? [...this.rejectedServers.keys()].filter(
+              (id) => next.has(id) && !changed.includes(id)
+            )
+          : [];
+      for (const id of retried) {
+        this.rejectedServers.delete(id);
+      }
+
+      const launches = [...changed, ...added, ...retried].map((id) => next.get(id)!);
+      const results = await Promise.allSettled(
+        launches.map((cfg) => this.launchServer(cfg))
+      );
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          log.warn(
+            `Travel server "${launches[index].id}" failed to start after reload:`,
+            result.reason
+          );
+          this.scheduleRestart(launches[index]);
+        }
+      });
+
+      if (launches.length > 0) {
+        await this.listResources().catch(() => undefined);
+        await this.listResourceTemplates().catch(() => undefined);
+        await this.listPrompts().catch(() => undefined);
+        await this.stopRejectedServers();
+        for (const event of Object.values(CATALOG_EVENTS)) {
+          this.emit(event);
+        }
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      log.success(
+        `Applied travel server configuration (added: ${added.length}, removed: ${removed.length}, restarted: ${changed.length})`
+      );
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  getServerHealth(): ServerHealth[] {
+    return this.configs.map((cfg) => {
+      const state = this.health.get(cfg.id);
+      const toolCount = [...this.registry.values()].filter(
+        (entry) => entry.serverId === cfg.id
+      ).length;
+      return {
+        id: cfg.id,
+        title: cfg.title,
+        required: !!cfg.required,
+        status: this.resolveStatus(cfg),
+        connected: this.processes.has(cfg.id),
+        circuitState: state?.breaker.getState() ?? "closed",
+        consecutiveFailures: state?.breaker.getConsecutiveFailures() ?? 0,
+        toolCount,
+        lastError: state?.lastError ?? this.degraded.get(cfg.id)?.error,
+        lastPingAt: state?.lastPingAt
+          ? new Date(state.lastPingAt).toISOString()
+          : undefined,
+        lastSuccessfulPingAt: state?.lastSuccessfulPingAt
+          ? new Date(state.lastSuccessfulPingAt).toISOString()
+          : undefined,
+      };
+    });
+  }
+
+  // Ready once every required server is connected.
+  isReady(): boolean {
+    return this.configs
+      .filter((cfg) => cfg.required)
+      .every((cfg) => this.processes.has(cfg.id));
+  }
+
+  getConflicts(): NameConflict[] {
+    return [...this.conflicts.values(), ...[...this.rejectedServers.values()].flat()];
+  }
+
   listTools(): Tool[] {
     return [...this.registry.values()].map((entry) => entry.tool);
   }
 
+  getQuotaPolicies(): ResolvedQuotaPolicy[] {
+    return this.configs.flatMap((config) =>
+      resolveQuotaPolicies(config.id, config.quotas)
+    );
+  }
+
+  async getQuotaUsage(): Promise<QuotaUsage[]> {
+    return this.options.quotas
+      ? this.options.quotas.listUsage(this.getQuotaPolicies())
+      : [];
+  }
+
   getToolPermissions(name: string): Permission[] {
     return this.registry.get(name)?.permissions ?? [Permission.CALL_TOOLS];
   }
@@ -111,35 +626,13 @@ export class TravelRegistry {
     const span = tracer.startSpan("registry.listResources");
 
     try {
-      const aggregated: Resource[] = [];
-      this.resources.clear();
-      this.resourceSchemes.clear();
-
-      for (const [serverId, registration] of this.processes.entries()) {
-        const { client, config } = registration;
+      for (const { client, config } of this.connectedServers()) {
+        const serverId = config.id;
+        const catalog = this.catalogs.get(serverId)!;
         try {
-          const result = await client.listResources();
-          const permissions =
-            config.resourcePermissions && config.resourcePermissions.length > 0
-              ? config.resourcePermissions
-              : [Permission.READ_RESOURCES];
-
-          result.resources.forEach((resource) => {
-            const scheme = this.extractScheme(resource.uri);
-            if (scheme) {
-              this.resourceSchemes.set(scheme, { serverId, permissions });
-            }
-
-            const exposedResource: Resource = { ...resource };
-            this.resources.set(exposedResource.uri, {
-              resource: exposedResource,
-              serverId,
-              remoteUri: resource.uri,
-              permissions,
-            });
-            aggregated.push(exposedResource);
-          });
+          catalog.resources = (await client.listResources()).resources;
         } catch (error) {
+          catalog.resources = undefined;
           span.addEvent("registry.listResources.error", {
             "server.id": serverId,
             "error.message": error instanceof Error ? error.message : String(error),
@@ -150,6 +643,7 @@ export class TravelRegistry {
           );
         }
       }
+      const aggregated = this.rebuildResources();
 
       span.setAttributes({
         "registry.resources.count": aggregated.length,
@@ -174,26 +668,17 @@ export class TravelRegistry {
     });
 
     try {
-      let registration = this.resources.get(uri);
-      if (!registration) {
-        await this.listResources();
-        registration = this.resources.get(uri);
-      }
-
-      let serverId = registration?.serverId;
-
+      let serverId = this.resolveResourceServer(uri);
       if (!serverId) {
-        const scheme = this.extractScheme(uri);
-        const schemeEntry = scheme
-          ? this.resourceSchemes.get(scheme)
-          : undefined;
-        serverId = schemeEntry?.serverId;
+        await this.listResources();
+        await this.listResourceTemplates();
+        serverId = this.resolveResourceServer(uri);
       }
 
       if (!serverId) {
-        const message = `Unknown resource: ${uri}`;
-        span.setStatus({ code: SpanStatusCode.ERROR, message });
-        throw new Error(message);
+        const error = new ResourceNotFoundError(uri);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+        throw error;
       }
 
       const processRegistration = this.processes.get(serverId);
@@ -203,9 +688,9 @@ export class TravelRegistry {
         throw new Error(message);
       }
 
-      const result = await processRegistration.client.readResource({
-        uri,
-      });
+      const result = await this.invokeUpstream(serverId, span, (options) =>
+        processRegistration.client.readResource({ uri }, options)
+      );
 
       span.setStatus({
         code: SpanStatusCode.OK,
@@ -229,12 +714,58 @@ export class TravelRegistry {
       return direct;
     }
 
-    const scheme = this.extractScheme(uri);
-    if (scheme) {
-      const schemePermissions = this.resourceSchemes.get(scheme)?.permissions;
-      if (schemePermissions && schemePermissions.length > 0) {
-        return schemePermissions;
+    const templatePermissions = this.matchResourceTemplate(uri)?.permissions;
+    if (templatePermissions && templatePermissions.length > 0) {
+      return templatePermissions;
+    }
+
+    return [Permission.READ_RESOURCES];
+  }
+
+  async listResourceTemplates(): Promise<ResourceTemplate[]> {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.listResourceTemplates");
+
+    try {
+      for (const { client, config } of this.connectedServers()) {
+        const serverId = config.id;
+        const catalog = this.catalogs.get(serverId)!;
+        try {
+          catalog.resourceTemplates = (await client.listResourceTemplates()).resourceTemplates;
+        } catch (error) {
+          catalog.resourceTemplates = undefined;
+          span.addEvent("registry.listResourceTemplates.error", {
+            "server.id": serverId,
+            "error.message": error instanceof Error ? error.message : String(error),
+          });
+          log.warn(
+            `Failed to list resource templates from server "${config.id}":`,
+            error
+          );
+        }
       }
+      const aggregated = this.rebuildResourceTemplates();
+
+      span.setAttributes({
+        "registry.resource_templates.count": aggregated.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      return aggregated;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  getResourceTemplatePermissions(uriTemplate: string): Permission[] {
+    const permissions = this.resourceTemplates.get(uriTemplate)?.permissions;
+    if (permissions && permissions.length > 0) {
+      return permissions;
     }
 
     return [Permission.READ_RESOURCES];
@@ -245,38 +776,13 @@ export class TravelRegistry {
     const span = tracer.startSpan("registry.listPrompts");
 
     try {
-      const aggregated: Prompt[] = [];
-      this.prompts.clear();
-
-      for (const [serverId, registration] of this.processes.entries()) {
-        const { client, config } = registration;
+      for (const { client, config } of this.connectedServers()) {
+        const serverId = config.id;
+        const catalog = this.catalogs.get(serverId)!;
         try {
-          const result = await client.listPrompts();
-          const permissions =
-            config.promptPermissions && config.promptPermissions.length > 0
-              ? config.promptPermissions
-              : [Permission.GET_PROMPTS];
-
-          result.prompts.forEach((prompt) => {
-            const exposedName = config.toolPrefix
-              ? `${config.toolPrefix}_${prompt.name}`
-              : prompt.name;
-
-            const exposedPrompt: Prompt = {
-              ...prompt,
-              name: exposedName,
-            };
-
-            this.prompts.set(exposedName, {
-              prompt: exposedPrompt,
-              serverId,
-              remoteName: prompt.name,
-              permissions,
-            });
-
-            aggregated.push(exposedPrompt);
-          });
+          catalog.prompts = (await client.listPrompts()).prompts;
         } catch (error) {
+          catalog.prompts = undefined;
           span.addEvent("registry.listPrompts.error", {
             "server.id": serverId,
             "error.message": error instanceof Error ? error.message : String(error),
@@ -287,6 +793,7 @@ export class TravelRegistry {
           );
         }
       }
+      const aggregated = this.rebuildPrompts();
 
       span.setAttributes({
         "registry.prompts.count": aggregated.length,
@@ -323,7 +830,7 @@ export class TravelRegistry {
       if (!registration) {
         const message = `Unknown prompt: ${name}`;
         span.setStatus({ code: SpanStatusCode.ERROR, message });
-        throw new Error(message);
+        throw new InvalidParamsError(message);
       }
 
       const processRegistration = this.processes.get(registration.serverId);
@@ -347,8 +854,10 @@ export class TravelRegistry {
         ? { name: registration.remoteName, arguments: normalizedArgs }
         : { name: registration.remoteName };
 
-      const result = await processRegistration.client.getPrompt(
-        requestPayload
+      const result = await this.invokeUpstream(
+        registration.serverId,
+        span,
+        (options) => processRegistration.client.getPrompt(requestPayload, options)
       );
 
       const prompt = Object.assign(
@@ -387,9 +896,81 @@ export class TravelRegistry {
     return [Permission.GET_PROMPTS];
   }
 
+  // Asks the server owning a prompt or resource template for completions.
+  // Resolves undefined when that server does not support completion/complete.
+  async complete(
+    params: CompleteRequest["params"]
+  ): Promise<CompleteResult["completion"] | undefined> {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.complete", {
+      attributes: {
+        "completion.ref_type": params.ref.type,
+        "completion.argument": params.argument.name,
+      },
+    });
+
+    try {
+      let serverId: string | undefined;
+      let ref = params.ref;
+      if (ref.type === "ref/prompt") {
+        if (!this.prompts.has(ref.name)) {
+          await this.listPrompts();
+        }
+        const registration = this.prompts.get(ref.name);
+        serverId = registration?.serverId;
+        if (registration) {
+          ref = { ...ref, name: registration.remoteName };
+        }
+      } else {
+        if (!this.resourceTemplates.has(ref.uri)) {
+          await this.listResourceTemplates();
+        }
+        serverId = this.resourceTemplates.get(ref.uri)?.serverId;
+      }
+
+      if (!serverId) {
+        const message =
+          params.ref.type === "ref/prompt"
+            ? `Unknown prompt: ${params.ref.name}`
+            : `Unknown resource template: ${params.ref.uri}`;
+        span.setStatus({ code: SpanStatusCode.ERROR, message });
+        throw new InvalidParamsError(message);
+      }
+
+      span.setAttribute("completion.server_id", serverId);
+      const processRegistration = this.processes.get(serverId);
+      if (!processRegistration?.client.getServerCapabilities()?.completions) {
+        span.setAttribute("completion.delegated", false);
+        span.setStatus({ code: SpanStatusCode.OK });
+        return undefined;
+      }
+
+      const { client } = processRegistration;
+      const result = await this.invokeUpstream(serverId, span, (options) =>
+        client.complete({ ...params, ref }, options)
+      );
+
+      span.setAttributes({
+        "completion.delegated": true,
+        "completion.values.count": result.completion.values.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+      return result.completion;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
   async callTool(
     name: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    options: CallToolOptions = {}
   ): Promise<any> {
     const tracer = trace.getTracer("travel-registry");
     const span = tracer.startSpan("registry.callTool", {
@@ -403,7 +984,7 @@ export class TravelRegistry {
       if (!registration) {
         const message = `Unknown tool: ${name}`;
         span.setStatus({ code: SpanStatusCode.ERROR, message });
-        throw new Error(message);
+        throw new InvalidParamsError(message);
       }
 
       const processRegistration = this.processes.get(registration.serverId);
@@ -414,17 +995,154 @@ export class TravelRegistry {
       }
 
       const { client, config } = processRegistration;
+      const validationMode = config.schemaValidation ?? "warn";
 
       span.setAttributes({
         "tool.server_id": registration.serverId,
         "tool.remote_name": registration.remoteName,
         "tool.config.title": config.title,
+        "tool.schema_validation": validationMode,
       });
 
-      const result = await client.callTool({
-        name: registration.remoteName,
-        arguments: args,
+      if (validationMode !== "off") {
+        const violation = this.schemaValidator.validate(
+          registration.tool.inputSchema,
+          args
+        );
+        if (violation) {
+          this.recordSchemaViolation(span, "input", name, validationMode, violation.errors);
+          if (validationMode === "strict") {
+            throw new InvalidParamsError(
+              `Invalid arguments for tool ${name}: ${violation.errors}`
+            );
+          }
+        }
+      }
+
+      // Before the cache lookup, so denied roles never see cached results
+      // and cache hits count like any other call
+      if (this.options.quotas && options.user && config.quotas?.length) {
+        await this.options.quotas.consume(
+          span,
+          resolveQuotaPolicies(registration.serverId, config.quotas),
+          {
+            userId: options.user.id,
+            role: options.user.role,
+            toolName: name,
+            remoteName: registration.remoteName,
+          }
+        );
+      }
+
+      const cache = this.options.cache;
+      const cacheTtl = cache?.resolveTtl(
+        registration.tool,
+        registration.remoteName,
+        config.cache
+      );
+      const cacheKey =
+        cache && cacheTtl != null ? cache.key(name, args) : undefined;
+      span.setAttribute("cache.cacheable", cacheKey !== undefined);
+      if (cacheKey) {
+        const cached = await this.readCache(span, cacheKey);
+        if (cached !== undefined) {
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message: "Tool result served from cache",
+          });
+          return cached;
+        }
+      }
+
+      const onprogress = options.progress
+        ? (progress: Progress) =>
+            this.relayProgress(span, options.progress!, progress)
+        : undefined;
+      const upstream = (signal?: AbortSignal, relay = onprogress) =>
+        this.invokeUpstream(
+          registration.serverId,
+          span,
+          // A raw request skips Client.callTool's own output check, which
+          // always throws; the server's validation mode decides instead.
+          (requestOptions) =>
+            client.request(
+              {
+                method: "tools/call",
+                params: {
+                  name: registration.remoteName,
+                  arguments: args,
+                },
+              },
+              CallToolResultSchema,
+              requestOptions
+            ),
+          {
+            signal,
+            onprogress: relay,
+            resetTimeoutOnProgress: true,
+            maxTotalTimeout: config.maxCallDurationMs ?? DEFAULT_MAX_CALL_DURATION_MS,
+          }
+        );
+
+      let call: Promise<CallToolResult>;
+      let coalesced = false;
+      if (this.isCoalescable(registration.tool, config)) {
+        const flight = this.toolFlights.join(
+          toolCallKey(name, args),
+          upstream,
+          { signal: options.signal, onprogress }
+        );
+        call = flight.promise;
+        coalesced = flight.shared;
+        if (coalesced) {
+          span.addEvent("tool.coalesced");
+        }
+      } else {
+        call = upstream(options.signal);
+      }
+      span.setAttribute("tool.coalesced", coalesced);
+      this.toolCallCounter.add(1, {
+        "tool.server_id": registration.serverId,
+        "tool.coalesced": coalesced,
       });
+      this.inFlightCalls.add(call);
+      const origin = options.origin;
+      if (origin) {
+        const origins = this.origins.get(registration.serverId) ?? new Set();
+        origins.add(origin);
+        this.origins.set(registration.serverId, origins);
+      }
+
+      let result;
+      try {
+        result = await call;
+      } finally {
+        this.inFlightCalls.delete(call);
+        if (origin) {
+          this.origins.get(registration.serverId)?.delete(origin);
+        }
+      }
+
+      const outputSchema = registration.tool.outputSchema;
+      if (validationMode !== "off" && outputSchema && !result.isError) {
+        const errors = result.structuredContent
+          ? this.schemaValidator.validate(outputSchema, result.structuredContent)
+              ?.errors
+          : "structuredContent is missing";
+        if (errors) {
+          this.recordSchemaViolation(span, "output", name, validationMode, errors);
+          if (validationMode === "strict") {
+            throw new Error(
+              `Tool ${name} returned structured content that does not match its output schema: ${errors}`
+            );
+          }
+        }
+      }
+
+      // The caller that made the upstream call already stored it
+      if (cacheKey && !coalesced && !result.isError) {
+        await this.writeCache(span, cacheKey, result, cacheTtl!);
+      }
 
       span.setStatus({
         code: SpanStatusCode.OK,
@@ -433,6 +1151,13 @@ export class TravelRegistry {
 
       return result;
     } catch (error) {
+      if (options.signal?.aborted) {
+        const reason = options.signal.reason;
+        span.setAttribute("tool.cancelled", true);
+        span.addEvent("tool.cancelled", {
+          reason: reason instanceof Error ? reason.message : String(reason),
+        });
+      }
       span.setStatus({
         code: SpanStatusCode.ERROR,
         message: error instanceof Error ? error.message : String(error),
@@ -443,21 +1168,242 @@ export class TravelRegistry {
     }
   }
 
-  async shutdown() {
-    const tracer = trace.getTracer("travel-registry");
-    const span = tracer.startSpan("registry.shutdown");
+  // Opt-in like the response cache: merging two users' calls to a tool that
+  // writes data would perform one side effect for both.
+  private isCoalescable(tool: Tool, config: RemoteServerConfig) {
+    if (config.coalesce !== undefined) {
+      return config.coalesce;
+    }
+    const annotations = tool.annotations;
+    return annotations?.readOnlyHint === true || annotations?.idempotentHint === true;
+  }
 
+  // Cache failures are recorded but never fail the call itself.
+  private async readCache(span: Span, key: string): Promise<unknown> {
+    const backend = this.options.cache!.backend.name;
     try {
-      for (const { transport, client } of this.processes.values()) {
-        await transport.close().catch(() => undefined);
+      const cached = await this.options.cache!.get(key);
+      span.setAttribute("cache.hit", cached !== undefined);
+      span.addEvent(cached !== undefined ? "cache.hit" : "cache.miss", {
+        "cache.backend": backend,
+      });
+      return cached;
+    } catch (error) {
+      span.addEvent("cache.error", {
+        "cache.backend": backend,
+        "error.message": error instanceof Error ? error.message : String(error),
+      });
+      log.warn("Tool cache read failed:", error);
+      return undefined;
+    }
+  }
+
+  private async writeCache(span: Span, key: string, value: unknown, ttlMs: number) {
+    const backend = this.options.cache!.backend.name;
+    try {
+      await this.options.cache!.set(key, value, ttlMs);
+      span.addEvent("cache.store", {
+        "cache.backend": backend,
+        "cache.ttl_ms": ttlMs,
+      });
+    } catch (error) {
+      span.addEvent("cache.error", {
+        "cache.backend": backend,
+        "error.message": error instanceof Error ? error.message : String(error),
+      });
+      log.warn("Tool cache write failed:", error);
+    }
+  }
+
+  private recordSchemaViolation(
+    span: Span,
+    direction: "input" | "output",
+    toolName: string,
+    mode: SchemaValidationMode,
+    errors: string
+  ) {
+    span.addEvent(`tool.schema_violation.${direction}`, {
+      "tool.name": toolName,
+      "schema.validation_mode": mode,
+      "schema.errors": errors,
+    });
+    log.warn(`Tool ${toolName} ${direction} does not match its schema: ${errors}`);
+  }
+
+  private relayProgress(
+    span: Span,
+    target: NonNullable<CallToolOptions["progress"]>,
+    progress: Progress
+  ) {
+    span.addEvent("tool.progress", {
+      progress: progress.progress,
+      ...(progress.total !== undefined ? { total: progress.total } : {}),
+    });
+
+    target
+      .notify({
+        method: "notifications/progress",
+        params: { ...progress, progressToken: target.token },
+      })
+      .catch((error) =>
+        log.warn(
+          `Failed to relay progress: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+  }
+
+  // Child servers are shared by every session, so a server-to-client request
+  // is only forwarded when all calls in flight on that server come from the
+  // same downstream session. Anything else could reach the wrong user.
+  private async proxyToOrigin<T>(
+    serverId: string,
+    method: "sampling/createMessage" | "elicitation/create",
+    forward: (origin: DownstreamOrigin) => Promise<T>
+  ): Promise<T> {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.proxyClientRequest", {
+      attributes: {
+        "server.id": serverId,
+        "request.method": method,
+      },
+    });
+
+    try {
+      const origins = [...(this.origins.get(serverId) ?? [])];
+      if (origins.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${method} is only available while handling a tool call`
+        );
+      }
+
+      const sessions = new Set(origins.map((origin) => origin.sessionId));
+      if (sessions.size > 1 || sessions.has(undefined)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Cannot attribute ${method} to a single downstream session`
+        );
+      }
+
+      const origin = origins[0];
+      span.setAttributes({
+        "user.id": origin.userId,
+        "session.id": origin.sessionId ?? "none",
+      });
+
+      const capability =
+        method === "sampling/createMessage"
+          ? origin.capabilities?.sampling
+          : origin.capabilities?.elicitation;
+      if (!capability) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Downstream client does not support ${method}`
+        );
+      }
+
+      log.info(
+        `Proxying ${method} from "${serverId}" to session ${origin.sessionId} (user ${origin.userId})`
+      );
+      // A person may take longer than callTimeoutMs to answer
+      const resume = this.pauseDeadlines(serverId);
+      let result: T;
+      try {
+        result = await forward(origin);
+      } finally {
+        resume();
+      }
+      span.setStatus({ code: SpanStatusCode.OK });
+      return result;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  getInFlightCallCount(): number {
+    return this.inFlightCalls.size;
+  }
+
+  // Resolves true once every outstanding callTool has settled, or false if
+  // the deadline passes first.
+  async waitForInFlightCalls(timeoutMs: number): Promise<boolean> {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.waitForInFlightCalls", {
+      attributes: {
+        "registry.in_flight_calls": this.inFlightCalls.size,
+        "registry.drain_timeout_ms": timeoutMs,
+      },
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const deadline = new Promise<false>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      });
+
+      // Calls started while draining are picked up by the next pass
+      let drained = true;
+      while (drained && this.inFlightCalls.size > 0) {
+        drained = await Promise.race([
+          Promise.allSettled([...this.inFlightCalls]).then(() => true),
+          deadline,
+        ]);
+      }
+
+      span.setAttributes({
+        "registry.drained": drained,
+        "registry.abandoned_calls": this.inFlightCalls.size,
+      });
+      span.setStatus({
+        code: drained ? SpanStatusCode.OK : SpanStatusCode.ERROR,
+        message: drained
+          ? "In-flight calls settled"
+          : `${this.inFlightCalls.size} call(s) still running at deadline`,
+      });
+      return drained;
+    } finally {
+      clearTimeout(timer);
+      span.end();
+    }
+  }
+
+  async shutdown() {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.shutdown");
+
+    try {
+      this.shuttingDown = true;
+      for (const state of this.supervisors.values()) {
+        if (state.timer) {
+          clearTimeout(state.timer);
+          state.timer = undefined;
+        }
+      }
+
+      for (const { transport, client } of this.processes.values()) {
+        await transport.close().catch(() => undefined);
         await client.close().catch(() => undefined);
       }
 
       this.processes.clear();
       this.registry.clear();
       this.resources.clear();
-      this.resourceSchemes.clear();
       this.prompts.clear();
+      this.supervisors.clear();
+      this.catalogs.clear();
+      this.conflicts.clear();
+      this.rejectedServers.clear();
+      for (const serverId of this.health.keys()) {
+        this.stopHealthChecks(serverId);
+      }
 
       span.setStatus({
         code: SpanStatusCode.OK,
@@ -474,78 +1420,949 @@ export class TravelRegistry {
     }
   }
 
-  private extractScheme(uri: string): string | null {
-    const match = /^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//.exec(uri);
-    return match ? match[1] : null;
+  private resolveResourceServer(uri: string): string | undefined {
+    return (
+      this.resources.get(uri)?.serverId ??
+      this.matchResourceTemplate(uri)?.serverId
+    );
   }
 
-  private async launchServer(config: RemoteServerConfig) {
+  private matchResourceTemplate(
+    uri: string
+  ): ResourceTemplateRegistration | undefined {
+    for (const registration of this.resourceTemplates.values()) {
+      if (registration.matcher.match(uri)) {
+        return registration;
+      }
+    }
+    return undefined;
+  }
+
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    message: string
+  ): Promise<T> {
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error(message)), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Fails fast while the server's circuit is open and feeds every upstream
+  // outcome back into the breaker. The idle timeout is a CallDeadline, which
+  // proxied sampling and elicitation requests pause; the SDK only enforces
+  // the total cap.
+  private async invokeUpstream<T>(
+    serverId: string,
+    span: Span,
+    operation: (options: RequestOptions) => Promise<T>,
+    overrides: RequestOptions = {}
+  ): Promise<T> {
+    const state = this.health.get(serverId);
+    const config = this.findConfig(serverId);
+    const timeout = config?.callTimeoutMs ?? DEFAULT_CALL_TIMEOUT_MS;
+
+    if (state) {
+      span.setAttribute("server.circuit.state", state.breaker.getState());
+      try {
+        state.breaker.acquire();
+      } catch (error) {
+        span.addEvent("server.circuit.rejected", { "server.id": serverId });
+        throw error;
+      }
+    }
+
+    const deadline = new CallDeadline(overrides.timeout ?? timeout);
+    const deadlines = this.deadlines.get(serverId) ?? new Set<CallDeadline>();
+    deadlines.add(deadline);
+    this.deadlines.set(serverId, deadlines);
+    const onprogress = overrides.onprogress;
+
+    try {
+      const result = await operation({
+        ...overrides,
+        timeout: overrides.maxTotalTimeout ?? deadline.timeoutMs,
+        signal: overrides.signal
+          ? AbortSignal.any([overrides.signal, deadline.signal])
+          : deadline.signal,
+        onprogress: onprogress
+          ? (progress) => {
+              deadline.touch();
+              onprogress(progress);
+            }
+          : undefined,
+      });
+      state?.breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      const cancelled = overrides.signal?.aborted ?? false;
+      const idleTimeout = deadline.expired && !cancelled;
+      const capTimeout =
+        !idleTimeout &&
+        error instanceof McpError &&
+        error.code === ErrorCode.RequestTimeout;
+
+      // A caller cancelling says nothing about the server's health, and
+      // neither does a call that hit its cap while waiting on a person
+      if (cancelled || (capTimeout && deadline.waitedOnClient)) {
+        state?.breaker.release();
+      } else if (state) {
+        state.breaker.recordFailure();
+        state.lastError = error instanceof Error ? error.message : String(error);
+        span.setAttribute("server.circuit.state", state.breaker.getState());
+      }
+
+      if (idleTimeout) {
+        throw new GatewayTimeoutError(serverId, deadline.timeoutMs);
+      }
+      if (capTimeout) {
+        const data = (error as McpError).data as
+          | { maxTotalTimeout?: number; timeout?: number }
+          | undefined;
+        throw new GatewayTimeoutError(
+          serverId,
+          data?.maxTotalTimeout ?? data?.timeout ?? deadline.timeoutMs
+        );
+      }
+      throw error;
+    } finally {
+      deadline.dispose();
+      deadlines.delete(deadline);
+    }
+  }
+
+  // Stops the idle timeout of every call in flight on the server until the
+  // returned function is called.
+  private pauseDeadlines(serverId: string): () => void {
+    const resumes = [...(this.deadlines.get(serverId) ?? [])].map((deadline) =>
+      deadline.pause()
+    );
+    return () => resumes.forEach((resume) => resume());
+  }
+
+  private startHealthChecks(config: RemoteServerConfig) {
+    let state = this.health.get(config.id);
+    if (state?.timer) {
+      clearInterval(state.timer);
+    }
+
+    state = {
+      ...state,
+      breaker: new CircuitBreaker(config.id, {
+        ...DEFAULT_CIRCUIT_BREAKER_POLICY,
+        ...(config.circuitBreaker ?? {}),
+      }),
+      timer: undefined,
+    };
+    this.health.set(config.id, state);
+
+    if (config.healthCheck === false) {
+      return;
+    }
+
+    const policy = { ...DEFAULT_HEALTH_CHECK_POLICY, ...(config.healthCheck ?? {}) };
+    state.timer = setInterval(
+      () => void this.pingServer(config.id, policy.timeoutMs),
+      policy.intervalMs
+    );
+    state.timer.unref();
+  }
+
+  private stopHealthChecks(serverId: string) {
+    const state = this.health.get(serverId);
+    if (state?.timer) {
+      clearInterval(state.timer);
+      state.timer = undefined;
+    }
+  }
+
+  private async pingServer(serverId: string, timeoutMs: number) {
+    const registration = this.processes.get(serverId);
+    const state = this.health.get(serverId);
+    if (!registration || !state) {
+      return;
+    }
+
     const tracer = trace.getTracer("travel-registry");
-    const span = tracer.startSpan("registry.launchServer", {
+    const span = tracer.startSpan("registry.ping", {
+      attributes: { "server.id": serverId },
+    });
+
+    try {
+      state.lastPingAt = Date.now();
+      await registration.client.ping({ timeout: timeoutMs });
+      state.lastSuccessfulPingAt = Date.now();
+      // A ping alone does not close an open circuit before its reset timeout
+      if (state.breaker.getState() !== "open") {
+        state.breaker.recordSuccess();
+      }
+      span.setStatus({ code: SpanStatusCode.OK });
+    } catch (error) {
+      state.breaker.recordFailure();
+      state.lastError = error instanceof Error ? error.message : String(error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: state.lastError });
+      log.warn(`Health check failed for travel server "${serverId}":`, state.lastError);
+    } finally {
+      span.setAttribute("server.circuit.state", state.breaker.getState());
+      span.end();
+    }
+  }
+
+  private async stopServer(serverId: string) {
+    const state = this.supervisors.get(serverId);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.supervisors.delete(serverId);
+    this.degraded.delete(serverId);
+    this.rejectedServers.delete(serverId);
+    this.stopHealthChecks(serverId);
+    this.health.delete(serverId);
+
+    const registration = this.processes.get(serverId);
+    // Unregister first so the transport's onclose does not schedule a restart
+    this.unregisterServer(serverId);
+    if (registration) {
+      await registration.transport.close().catch(() => undefined);
+      await registration.client.close().catch(() => undefined);
+    }
+
+    log.info(`Stopped travel server "${serverId}"`);
+  }
+
+  private unregisterServer(serverId: string) {
+    this.processes.delete(serverId);
+    this.catalogs.delete(serverId);
+    this.stopHealthChecks(serverId);
+    // Names the server owned go back to the next server that lists them
+    this.rebuildTools();
+    this.rebuildResources();
+    this.rebuildResourceTemplates();
+    this.rebuildPrompts();
+
+    for (const event of Object.values(CATALOG_EVENTS)) {
+      this.emit(event);
+    }
+  }
+
+  // Connected servers in config order, which decides who keeps a contested
+  // name no matter which server finished launching first.
+  private connectedServers(): ProcessRegistration[] {
+    return this.configs.flatMap((cfg) => {
+      const registration = this.processes.get(cfg.id);
+      return registration && this.catalogs.has(cfg.id) ? [registration] : [];
+    });
+  }
+
+  private rebuildEntries<T>(
+    kind: ConflictKind,
+    entries: Map<string, unknown>,
+    listed: (catalog: ServerCatalog) => T[] | undefined,
+    register: (config: RemoteServerConfig, items: T[]) => T[]
+  ): T[] {
+    entries.clear();
+    this.clearConflicts(kind);
+
+    return this.connectedServers().flatMap(({ config }) => {
+      const items = listed(this.catalogs.get(config.id)!);
+      if (!items) {
+        return [];
+      }
+      try {
+        return register(config, items);
+      } catch (error) {
+        log.warn(error instanceof Error ? error.message : String(error));
+        return [];
+      }
+    });
+  }
+
+  private rebuildTools(): Tool[] {
+    return this.rebuildEntries("tool", this.registry, (catalog) => catalog.tools, (config, tools) =>
+      this.registerTools(config, tools)
+    );
+  }
+
+  private rebuildResources(): Resource[] {
+    return this.rebuildEntries(
+      "resource",
+      this.resources,
+      (catalog) => catalog.resources,
+      (config, resources) => this.registerResources(config, resources)
+    );
+  }
+
+  private rebuildResourceTemplates(): ResourceTemplate[] {
+    return this.rebuildEntries(
+      "resourceTemplate",
+      this.resourceTemplates,
+      (catalog) => catalog.resourceTemplates,
+      (config, templates) => this.registerResourceTemplates(config, templates)
+    );
+  }
+
+  private rebuildPrompts(): Prompt[] {
+    return this.rebuildEntries("prompt", this.prompts, (catalog) => catalog.prompts, (config, prompts) =>
+      this.registerPrompts(config, prompts)
+    );
+  }
+
+  private registerTools(config: RemoteServerConfig, tools: Tool[]): Tool[] {
+    const permissions =
+      config.permissions && config.permissions.length > 0
+        ? config.permissions
+        : [Permission.CALL_TOOLS];
+
+    const exposedNames = tools.map((tool) =>
+      config.toolPrefix ? `${config.toolPrefix}_${tool.name}` : tool.name
+    );
+    this.assertNoConflicts("tool", this.registry, exposedNames, config);
+
+    return tools.flatMap((tool, index) => {
+      const exposedName = this.claimName(
+        "tool",
+        this.registry,
+        exposedNames[index],
+        config
+      );
+      if (!exposedName) {
+        return [];
+      }
+
+      const registration: ToolRegistration = {
+        tool: { ...tool, name: exposedName },
+        serverId: config.id,
+        remoteName: tool.name,
+        permissions,
+      };
+
+      this.registry.set(exposedName, registration);
+      return [registration.tool];
+    });
+  }
+
+  private registerResources(
+    config: RemoteServerConfig,
+    resources: Resource[]
+  ): Resource[] {
+    const serverId = config.id;
+    const permissions =
+      config.resourcePermissions && config.resourcePermissions.length > 0
+        ? config.resourcePermissions
+        : [Permission.READ_RESOURCES];
+
+    this.assertNoConflicts(
+      "resource",
+      this.resources,
+      resources.map((resource) => resource.uri),
+      config
+    );
+
+    return resources.flatMap((resource) => {
+      if (!this.claimName("resource", this.resources, resource.uri, config)) {
+        return [];
+      }
+
+      const exposedResource: Resource = { ...resource };
+      this.resources.set(exposedResource.uri, {
+        resource: exposedResource,
+        serverId,
+        remoteUri: resource.uri,
+        permissions,
+      });
+      return [exposedResource];
+    });
+  }
+
+  private registerResourceTemplates(
+    config: RemoteServerConfig,
+    templates: ResourceTemplate[]
+  ): ResourceTemplate[] {
+    const defaultPermissions =
+      config.resourcePermissions && config.resourcePermissions.length > 0
+        ? config.resourcePermissions
+        : [Permission.READ_RESOURCES];
+
+    this.assertNoConflicts(
+      "resourceTemplate",
+      this.resourceTemplates,
+      templates.map((template) => template.uriTemplate),
+      config
+    );
+
+    return templates.flatMap((template) => {
+      if (
+        !this.claimName(
+          "resourceTemplate",
+          this.resourceTemplates,
+          template.uriTemplate,
+          config
+        )
+      ) {
+        return [];
+      }
+
+      const permissions =
+        config.resourceTemplatePermissions?.[template.uriTemplate] ??
+        defaultPermissions;
+
+      const exposedTemplate: ResourceTemplate = { ...template };
+      this.resourceTemplates.set(exposedTemplate.uriTemplate, {
+        template: exposedTemplate,
+        matcher: new UriTemplate(exposedTemplate.uriTemplate),
+        serverId: config.id,
+        permissions,
+      });
+      return [exposedTemplate];
+    });
+  }
+
+  private registerPrompts(
+    config: RemoteServerConfig,
+    prompts: Prompt[]
+  ): Prompt[] {
+    const permissions =
+      config.promptPermissions && config.promptPermissions.length > 0
+        ? config.promptPermissions
+        : [Permission.GET_PROMPTS];
+
+    const exposedNames = prompts.map((prompt) =>
+      config.toolPrefix ? `${config.toolPrefix}_${prompt.name}` : prompt.name
+    );
+    this.assertNoConflicts("prompt", this.prompts, exposedNames, config);
+
+    return prompts.flatMap((prompt, index) => {
+      const exposedName = this.claimName(
+        "prompt",
+        this.prompts,
+        exposedNames[index],
+        config
+      );
+      if (!exposedName) {
+        return [];
+      }
+
+      const exposedPrompt: Prompt = {
+        ...prompt,
+        name: exposedName,
+      };
+
+      this.prompts.set(exposedName, {
+        prompt: exposedPrompt,
+        serverId: config.id,
+        remoteName: prompt.name,
+        permissions,
+      });
+
+      return [exposedPrompt];
+    });
+  }
+
+  // Under the "fail" policy nothing from the server is registered when any
+  // of its names is already owned by another server.
+  private assertNoConflicts<T extends { serverId: string }>(
+    kind: ConflictKind,
+    entries: Map<string, T>,
+    names: string[],
+    config: RemoteServerConfig
+  ) {
+    if ((config.collisionPolicy ?? "fail") !== "fail") {
+      return;
+    }
+
+    const collisions = names.filter((name) => {
+      const existing = entries.get(name);
+      return existing && existing.serverId !== config.id;
+    });
+
+    if (collisions.length === 0) {
+      return;
+    }
+
+    for (const name of collisions) {
+      this.recordConflict({
+        kind,
+        name,
+        existingServerId: entries.get(name)!.serverId,
+        incomingServerId: config.id,
+        policy: "fail",
+        resolution: "rejected",
+      });
+    }
+
+    throw new Error(
+      `Travel server "${config.id}" registers ${kind} names already in use: ${collisions.join(", ")}`
+    );
+  }
+
+  // Returns the name to register under, or null when the entry is dropped.
+  private claimName<T extends { serverId: string }>(
+    kind: ConflictKind,
+    entries: Map<string, T>,
+    name: string,
+    config: RemoteServerConfig
+  ): string | null {
+    const existing = entries.get(name);
+    if (!existing || existing.serverId === config.id) {
+      return name;
+    }
+
+    const policy = config.collisionPolicy ?? "fail";
+    const conflict = {
+      kind,
+      name,
+      existingServerId: existing.serverId,
+      incomingServerId: config.id,
+      policy,
+    };
+
+    // URIs cannot be renamed without breaking reads, so only tool and prompt
+    // names are suffixed; colliding URIs stay with their current owner.
+    if (policy === "suffix") {
+      if (kind === "tool" || kind === "prompt") {
+        const suffixed = `${name}_${config.id}`;
+        this.recordConflict({ ...conflict, resolution: "suffixed", exposedName: suffixed });
+        return suffixed;
+      }
+      this.recordConflict({ ...conflict, resolution: "kept" });
+      return null;
+    }
+
+    const incomingPriority = config.priority ?? 0;
+    const existingPriority = this.findConfig(existing.serverId)?.priority ?? 0;
+    if (incomingPriority > existingPriority) {
+      this.recordConflict({ ...conflict, resolution: "replaced" });
+      return name;
+    }
+
+    this.recordConflict({ ...conflict, resolution: "kept" });
+    return null;
+  }
+
+  private recordConflict(conflict: Omit<NameConflict, "detectedAt">) {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.nameConflict", {
       attributes: {
-        "server.id": config.id,
-        "server.title": config.title,
-        "server.cwd": config.cwd,
+        "conflict.kind": conflict.kind,
+        "conflict.name": conflict.name,
+        "conflict.existing_server_id": conflict.existingServerId,
+        "conflict.incoming_server_id": conflict.incomingServerId,
+        "conflict.policy": conflict.policy,
+        "conflict.resolution": conflict.resolution,
       },
     });
 
-    let transport: StdioClientTransport | null = null;
-    let client: Client | null = null;
+    try {
+      this.conflicts.set(
+        `${conflict.kind}:${conflict.name}:${conflict.incomingServerId}`,
+        { ...conflict, detectedAt: new Date().toISOString() }
+      );
+
+      span.setStatus({
+        code:
+          conflict.resolution === "rejected"
+            ? SpanStatusCode.ERROR
+            : SpanStatusCode.OK,
+        message: `Name conflict ${conflict.resolution}`,
+      });
+
+      log.warn(
+        `${conflict.kind} "${conflict.name}" from "${conflict.incomingServerId}" collides with "${conflict.existingServerId}" (policy=${conflict.policy}, resolution=${conflict.resolution})`
+      );
+    } finally {
+      span.end();
+    }
+  }
+
+  private clearConflicts(kind: ConflictKind) {
+    for (const [key, conflict] of this.conflicts.entries()) {
+      if (conflict.kind === kind) {
+        this.conflicts.delete(key);
+      }
+    }
+  }
+
+  // Called once launches settle. A "fail" policy collision is a config
+  // error: the server later in config order is stopped and not relaunched,
+  // since it would only collide again.
+  private async stopRejectedServers(): Promise<Map<string, string>> {
+    const rejected = new Map<string, string>();
+    for (const cfg of this.configs) {
+      const conflicts = [...this.conflicts.values()].filter(
+        (conflict) =>
+          conflict.resolution === "rejected" && conflict.incomingServerId === cfg.id
+      );
+      if (conflicts.length === 0 || !this.processes.has(cfg.id)) {
+        continue;
+      }
+
+      const message = `Name conflict: ${conflicts
+        .map((conflict) => `${conflict.kind} "${conflict.name}" is owned by "${conflict.existingServerId}"`)
+        .join(", ")}`;
+      await this.stopServer(cfg.id);
+      this.rejectedServers.set(cfg.id, conflicts);
+      this.degraded.set(cfg.id, { error: message, since: Date.now() });
+      rejected.set(cfg.id, message);
+      log.error(`Travel server "${cfg.id}" stopped and will not be restarted. ${message}`);
+    }
+    return rejected;
+  }
+
+  private findConfig(serverId: string): RemoteServerConfig | undefined {
+    return (
+      this.processes.get(serverId)?.config ??
+      this.configs.find((cfg) => cfg.id === serverId)
+    );
+  }
+
+  private async refreshCatalog(serverId: string, kind: CatalogKind) {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.refreshCatalog", {
+      attributes: { "server.id": serverId, "catalog.kind": kind },
+    });
 
     try {
-      log.info(`Starting travel server "${config.title}" (${config.id})...`);
+      const registration = this.processes.get(serverId);
+      if (!registration) {
+        span.addEvent("registry.refreshCatalog.server_offline");
+        span.setStatus({ code: SpanStatusCode.OK, message: "Server offline" });
+        return;
+      }
 
-      const env: Record<string, string> = {
-        ...process.env,
-        PYTHONUNBUFFERED: "1",
-        ...(config.env ?? {}),
-      } as Record<string, string>;
+      const { client } = registration;
+      const catalog = this.catalogs.get(serverId)!;
+      let count: number;
+      if (kind === "tools") {
+        catalog.tools = (await client.listTools()).tools;
+        this.rebuildTools();
+        count = catalog.tools.length;
+      } else if (kind === "resources") {
+        catalog.resources = (await client.listResources()).resources;
+        catalog.resourceTemplates = (
+          await client
+            .listResourceTemplates()
+            .catch(() => ({ resourceTemplates: [] as ResourceTemplate[] }))
+        ).resourceTemplates;
+        this.rebuildResources();
+        this.rebuildResourceTemplates();
+        count = catalog.resources.length + catalog.resourceTemplates.length;
+      } else {
+        catalog.prompts = (await client.listPrompts()).prompts;
+        this.rebuildPrompts();
+        count = catalog.prompts.length;
+      }
 
-      if (config.envKeys) {
-        for (const key of config.envKeys) {
-          if (process.env[key]) {
-            env[key] = process.env[key] as string;
-          }
-        }
+      span.setAttribute("catalog.count", count);
+      span.setStatus({ code: SpanStatusCode.OK });
+      log.info(`Refreshed ${kind} for travel server "${serverId}" (${count})`);
+      this.emit(CATALOG_EVENTS[kind]);
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      log.warn(`Failed to refresh ${kind} for travel server "${serverId}":`, error);
+    } finally {
+      span.end();
+    }
+  }
+
+  private resolveStatus(config: RemoteServerConfig): ServerStatus {
+    if (this.processes.has(config.id)) {
+      return "up";
+    }
+
+    const supervisor = this.supervisors.get(config.id);
+    if (
+      supervisor &&
+      !supervisor.gaveUp &&
+      this.resolveRestartPolicy(config) !== null
+    ) {
+      return "restarting";
+    }
+
+    return "failed";
+  }
+
+  private resolveRestartPolicy(config: RemoteServerConfig): RestartPolicy | null {
+    if (config.restart === false) {
+      return null;
+    }
+    return { ...DEFAULT_RESTART_POLICY, ...(config.restart ?? {}) };
+  }
+
+  private scheduleRestart(config: RemoteServerConfig) {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.scheduleRestart", {
+      attributes: { "server.id": config.id },
+    });
+
+    try {
+      const policy = this.resolveRestartPolicy(config);
+      if (!policy) {
+        span.addEvent("registry.restart.disabled");
+        span.setStatus({ code: SpanStatusCode.OK, message: "Restart disabled" });
+        log.warn(`Restart disabled for travel server "${config.id}".`);
+        return;
+      }
+
+      let state = this.supervisors.get(config.id);
+      if (!state) {
+        state = { crashes: [], gaveUp: false };
+        this.supervisors.set(config.id, state);
       }
 
-      transport = new StdioClientTransport({
-        command: config.command,
-        args: config.args,
-        env,
-        cwd: config.cwd,
-        stderr: "pipe",
+      const now = Date.now();
+      state.crashes = state.crashes.filter(
+        (timestamp) => now - timestamp < policy.windowMs
+      );
+      state.crashes.push(now);
+
+      span.setAttributes({
+        "server.restart.crashes_in_window": state.crashes.length,
+        "server.restart.max_restarts": policy.maxRestarts,
       });
 
-      const stderrStream = transport.stderr;
-      if (stderrStream) {
-        stderrStream.on("data", (data: Buffer) => {
-          log.warn(`[${config.id}] stderr: ${data.toString("utf8").trimEnd()}`);
-        });
+      if (state.crashes.length > policy.maxRestarts) {
+        state.gaveUp = true;
+        const message = `Travel server "${config.id}" crashed ${state.crashes.length} times within ${policy.windowMs}ms; giving up`;
+        span.addEvent("registry.restart.gave_up");
+        span.setStatus({ code: SpanStatusCode.ERROR, message });
+        log.error(message);
+        return;
       }
 
-      transport.onclose = () => {
-        log.error(`Travel server "${config.id}" exited.`);
-        this.processes.delete(config.id);
-        for (const [toolName, entry] of this.registry.entries()) {
-          if (entry.serverId === config.id) {
-            this.registry.delete(toolName);
-          }
+      // Exponential backoff with jitter in [delay / 2, delay).
+      const exponential =
+        policy.initialDelayMs * Math.pow(2, state.crashes.length - 1);
+      const capped = Math.min(policy.maxDelayMs, exponential);
+      const delay = Math.round(capped / 2 + Math.random() * (capped / 2));
+
+      span.setAttribute("server.restart.delay_ms", delay);
+      log.warn(
+        `Restarting travel server "${config.id}" in ${delay}ms (attempt ${state.crashes.length}/${policy.maxRestarts})`
+      );
+
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        void this.restartServer(config);
+      }, delay);
+      state.timer.unref();
+
+      span.setStatus({ code: SpanStatusCode.OK, message: "Restart scheduled" });
+    } finally {
+      span.end();
+    }
+  }
+
+  private async restartServer(config: RemoteServerConfig) {
+    // A reload may have replaced or removed this config while we waited
+    if (this.shuttingDown || !this.configs.includes(config)) {
+      return;
+    }
+
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.restartServer", {
+      attributes: { "server.id": config.id },
+    });
+
+    try {
+      await this.launchServer(config);
+
+      await this.listResources().catch((error) => {
+        log.warn(`Unable to refresh resources after restarting "${config.id}":`, error);
+      });
+      await this.listResourceTemplates().catch((error) => {
+        log.warn(`Unable to refresh resource templates after restarting "${config.id}":`, error);
+      });
+      await this.listPrompts().catch((error) => {
+        log.warn(`Unable to refresh prompts after restarting "${config.id}":`, error);
+      });
+
+      const rejected = await this.stopRejectedServers();
+      for (const event of Object.values(CATALOG_EVENTS)) {
+        this.emit(event);
+      }
+
+      if (rejected.has(config.id)) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: rejected.get(config.id) });
+        return;
+      }
+      span.setStatus({ code: SpanStatusCode.OK, message: "Server restarted" });
+      log.success(`Travel server "${config.id}" restarted`);
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      log.error(`Failed to restart travel server "${config.id}":`, error);
+      if (!this.shuttingDown) {
+        this.scheduleRestart(config);
+      }
+    } finally {
+      span.end();
+    }
+  }
+
+  private createTransport(config: RemoteServerConfig): Transport {
+    if (isHttpServerConfig(config)) {
+      const headers: Record<string, string> = { ...(config.headers ?? {}) };
+      const auth = config.auth;
+      if (auth?.type === "bearer") {
+        const token = auth.token ?? (auth.tokenEnv ? process.env[auth.tokenEnv] : undefined);
+        if (!token) {
+          throw new Error(`No bearer token configured for travel server "${config.id}"`);
         }
-        for (const [uri, entry] of this.resources.entries()) {
-          if (entry.serverId === config.id) {
-            this.resources.delete(uri);
-          }
+        headers["Authorization"] = `Bearer ${token}`;
+      } else if (auth?.type === "apiKey") {
+        const key = auth.key ?? (auth.keyEnv ? process.env[auth.keyEnv] : undefined);
+        if (!key) {
+          throw new Error(`No API key configured for travel server "${config.id}"`);
         }
-        for (const [scheme, entry] of this.resourceSchemes.entries()) {
-          if (entry.serverId === config.id) {
-            this.resourceSchemes.delete(scheme);
-          }
+        headers[auth.header] = key;
+      }
+
+      const url = new URL(config.url);
+      return config.transport === "http"
+        ? new StreamableHTTPClientTransport(url, { requestInit: { headers } })
+        : new SSEClientTransport(url, { requestInit: { headers } });
+    }
+
+    const env: Record<string, string> = {
+      ...process.env,
+      PYTHONUNBUFFERED: "1",
+      ...(config.env ?? {}),
+    } as Record<string, string>;
+
+    if (config.envKeys) {
+      for (const key of config.envKeys) {
+        if (process.env[key]) {
+          env[key] = process.env[key] as string;
         }
-        for (const [promptName, entry] of this.prompts.entries()) {
-          if (entry.serverId === config.id) {
-            this.prompts.delete(promptName);
+      }
+    }
+
+    const transport = new StdioClientTransport({
+      command: config.command,
+      args: config.args,
+      env,
+      cwd: config.cwd,
+      stderr: "pipe",
+    });
+
+    const stderrStream = transport.stderr;
+    if (stderrStream) {
+      // Chunks can end mid-line, or mid-secret, so only complete lines are
+      // scrubbed and logged; the rest waits for the next chunk or exit.
+      const decoder = new StringDecoder("utf8");
+      let partial = "";
+      const emitLines = (text: string) => {
+        for (const raw of text.split(/\r?\n/)) {
+          if (raw.trim().length === 0) {
+            continue;
           }
+          const line = scrubSecrets(raw, config.env);
+          log.warn(`[${config.id}] stderr: ${line}`);
+          this.emitServerLog(config, this.inferStderrLevel(line), line);
+        }
+      };
+      stderrStream.on("data", (data: Buffer) => {
+        const text = partial + decoder.write(data);
+        const end = text.lastIndexOf("\n");
+        partial = text.slice(end + 1);
+        if (end >= 0) {
+          emitLines(text.slice(0, end));
+        }
+        if (partial.length > MAX_STDERR_LINE_LENGTH) {
+          emitLines(partial);
+          partial = "";
+        }
+      });
+      stderrStream.on("end", () => {
+        emitLines(partial + decoder.end());
+        partial = "";
+      });
+    }
+
+    return transport;
+  }
+
+  private emitServerLog(
+    config: RemoteServerConfig,
+    level: LoggingLevel,
+    data: unknown
+  ) {
+    const entry: ServerLogEntry = {
+      serverId: config.id,
+      level,
+      data: scrubSecrets(data, isHttpServerConfig(config) ? undefined : config.env),
+    };
+    this.emit("serverLog", entry);
+  }
+
+  // Python's logging module prefixes records with the level name
+  private inferStderrLevel(line: string): LoggingLevel {
+    if (/\b(CRITICAL|FATAL)\b/.test(line)) {
+      return "critical";
+    }
+    if (/\b(ERROR|Traceback)\b/.test(line)) {
+      return "error";
+    }
+    if (/\bWARN(ING)?\b/.test(line)) {
+      return "warning";
+    }
+    if (/\bDEBUG\b/.test(line)) {
+      return "debug";
+    }
+    return "info";
+  }
+
+  private async launchServer(config: RemoteServerConfig) {
+    const tracer = trace.getTracer("travel-registry");
+    const span = tracer.startSpan("registry.launchServer", {
+      attributes: {
+        "server.id": config.id,
+        "server.title": config.title,
+        "server.transport": config.transport ?? "stdio",
+      },
+    });
+
+    let transport: Transport | null = null;
+    let client: Client | null = null;
+
+    try {
+      log.info(`Starting travel server "${config.title}" (${config.id})...`);
+
+      transport = this.createTransport(config);
+      span.setAttribute(
+        "server.endpoint",
+        isHttpServerConfig(config) ? config.url : config.cwd
+      );
+
+      const launchedTransport = transport;
+      transport.onclose = () => {
+        // Only react to the transport that is currently registered; a failed
+        // launch or a replaced process must not trigger another restart.
+        if (this.processes.get(config.id)?.transport !== launchedTransport) {
+          return;
+        }
+
+        log.error(`Travel server "${config.id}" disconnected.`);
+        this.unregisterServer(config.id);
+        this.degraded.set(config.id, {
+          error: "Connection closed",
+          since: Date.now(),
+        });
+
+        if (!this.shuttingDown) {
+          this.scheduleRestart(config);
         }
       };
 
@@ -553,39 +2370,70 @@ export class TravelRegistry {
         log.error(`Transport error for "${config.id}":`, error);
       };
 
-      client = new Client({
-        name: `travel-registry-${config.id}`,
-        version: "1.0.0",
-      });
-
-      await client.connect(transport);
+      client = new Client(
+        {
+          name: `travel-registry-${config.id}`,
+          version: "1.0.0",
+        },
+        {
+          capabilities: {
+            ...(config.sampling ? { sampling: {} } : {}),
+            ...(config.elicitation ? { elicitation: {} } : {}),
+          },
+        }
+      );
 
-      const { tools } = await client.listTools();
-      const permissions =
-        config.permissions && config.permissions.length > 0
-          ? config.permissions
-          : [Permission.CALL_TOOLS];
-
-      tools.forEach((tool) => {
-        const exposedName = config.toolPrefix
-          ? `${config.toolPrefix}_${tool.name}`
-          : tool.name;
-
-        const registration: ToolRegistration = {
-          tool: { ...tool, name: exposedName },
-          serverId: config.id,
-          remoteName: tool.name,
-          permissions,
-        };
+      if (config.sampling) {
+        client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+          this.proxyToOrigin(config.id, request.method, (origin) =>
+            origin.createMessage(request.params, extra.signal)
+          )
+        );
+      }
+      if (config.elicitation) {
+        client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+          this.proxyToOrigin(config.id, request.method, (origin) =>
+            origin.elicitInput(request.params, extra.signal)
+          )
+        );
+      }
 
-        this.registry.set(exposedName, registration);
-      });
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+        this.refreshCatalog(config.id, "tools")
+      );
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+        this.refreshCatalog(config.id, "resources")
+      );
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+        this.refreshCatalog(config.id, "prompts")
+      );
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) =>
+        this.emitServerLog(config, notification.params.level, notification.params.data)
+      );
 
+      const startupTimeoutMs =
+        config.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS;
+      span.setAttribute("server.startup_timeout_ms", startupTimeoutMs);
+
+      const connectedClient = client;
+      const { tools } = await this.withTimeout(
+        (async () => {
+          await connectedClient.connect(launchedTransport);
+          return connectedClient.listTools();
+        })(),
+        startupTimeoutMs,
+        `Travel server "${config.id}" did not start within ${startupTimeoutMs}ms`
+      );
       this.processes.set(config.id, {
         config,
         transport,
         client,
       });
+      this.catalogs.set(config.id, { tools });
+      this.rebuildTools();
+
+      this.degraded.delete(config.id);
+      this.startHealthChecks(config);
 
       span.setAttribute("server.tools.count", tools.length);
       span.setStatus({
@@ -604,6 +2452,11 @@ export class TravelRegistry {
         await client.close().catch(() => undefined);
       }
 
+      this.degraded.set(config.id, {
+        error: error instanceof Error ? error.message : String(error),
+        since: Date.now(),
+      });
+
       span.setStatus({
         code: SpanStatusCode.ERROR,
         message: error instanceof Error ? error.message : String(error),
@@ -0,0 +1,117 @@
+import { createHash } from "node:crypto";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// Per-server cache settings. Tools listed in `tools` use that TTL, or are
+// never cached when set to false; other tools are cached only when their
+// annotations mark them read-only and not explicitly non-idempotent.
+export interface ToolCacheConfig {
+  ttlMs?: number;
+  tools?: Record<string, number | false>;
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory";
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so Map order doubles as recency order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+// JSON with object keys sorted at every level, so argument order does not
+// change the cache key.
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, nested]) => nested !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, nested]) => `${JSON.stringify(key)}:${canonicalize(nested)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// Identifies a tool call by tool name and canonical arguments.
+export function toolCallKey(toolName: string, args: Record<string, unknown>): string {
+  const digest = createHash("sha256").update(canonicalize(args)).digest("hex");
+  return `${toolName}:${digest}`;
+}
+
+export class ResponseCache {
+  constructor(readonly backend: CacheBackend) {}
+
+  key(toolName: string, args: Record<string, unknown>): string {
+    return toolCallKey(toolName, args);
+  }
+
+  // Returns the TTL to cache a tool's results for, or null when it must not
+  // be cached.
+  resolveTtl(
+    tool: Tool,
+    remoteName: string,
+    config: ToolCacheConfig | undefined
+  ): number | null {
+    const configured = config?.tools?.[remoteName];
+    if (configured === false) {
+      return null;
+    }
+    if (typeof configured === "number") {
+      return configured;
+    }
+
+    const annotations = tool.annotations;
+    if (annotations?.readOnlyHint === true && annotations.idempotentHint !== false) {
+      return config?.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    }
+    return null;
+  }
+
+  get(key: string) {
+    return this.backend.get(key);
+  }
+
+  set(key: string, value: unknown, ttlMs: number) {
+    return this.backend.set(key, value, ttlMs);
+  }
+}
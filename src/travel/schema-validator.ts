@@ -0,0 +1,49 @@
+import Ajv, { ValidateFunction } from "ajv";
+import { logger } from "../helpers/logs.js";
+
+const log = logger("schema-validator");
+
+export type SchemaValidationMode = "strict" | "warn" | "off";
+
+export interface SchemaViolation {
+  errors: string;
+}
+
+// Compiles each JSON Schema once. Tools are replaced on every catalog refresh,
+// so keying on the schema object drops stale validators with them.
+export class SchemaValidator {
+  private readonly ajv = new Ajv({ allErrors: true });
+  private readonly cache = new WeakMap<object, ValidateFunction | null>();
+
+  validate(schema: object | undefined, value: unknown): SchemaViolation | null {
+    if (!schema) {
+      return null;
+    }
+
+    const validator = this.compile(schema);
+    if (!validator || validator(value)) {
+      return null;
+    }
+
+    return { errors: this.ajv.errorsText(validator.errors) };
+  }
+
+  private compile(schema: object): ValidateFunction | null {
+    if (this.cache.has(schema)) {
+      return this.cache.get(schema)!;
+    }
+
+    let validator: ValidateFunction | null = null;
+    try {
+      validator = this.ajv.compile(schema);
+    } catch (error) {
+      // A schema Ajv cannot compile is skipped rather than blocking the tool
+      log.warn(
+        "Skipping uncompilable JSON schema:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    this.cache.set(schema, validator);
+    return validator;
+  }
+}
@@ -0,0 +1,135 @@
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+
+type ProgressListener = (progress: Progress) => void;
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  callers: number;
+  listeners: Set<ProgressListener>;
+}
+
+export interface JoinOptions {
+  signal?: AbortSignal;
+  onprogress?: ProgressListener;
+}
+
+export interface Joined<T> {
+  promise: Promise<T>;
+  // False for the caller that started the upstream call
+  shared: boolean;
+}
+
+// Lets identical concurrent calls share one upstream call. Every caller can
+// cancel on its own; the upstream call is only aborted once the last caller
+// attached to it has gone.
+export class SingleFlight<T> {
+  private readonly flights = new Map<string, Flight<T>>();
+  private started = 0;
+  private joined = 0;
+
+  join(
+    key: string,
+    start: (signal: AbortSignal, onprogress: ProgressListener) => Promise<T>,
+    options: JoinOptions = {}
+  ): Joined<T> {
+    let flight = this.flights.get(key);
+    const shared = flight !== undefined;
+
+    if (!flight) {
+      const controller = new AbortController();
+      const listeners = new Set<ProgressListener>();
+      const created: Flight<T> = {
+        controller,
+        listeners,
+        callers: 0,
+        promise: start(controller.signal, (progress) =>
+          listeners.forEach((listener) => listener(progress))
+        ),
+      };
+      const settle = () => {
+        if (this.flights.get(key) === created) {
+          this.flights.delete(key);
+        }
+      };
+      created.promise.then(settle, settle);
+      this.flights.set(key, created);
+      flight = created;
+      this.started++;
+    } else {
+      this.joined++;
+    }
+
+    return { promise: this.attach(key, flight, options), shared };
+  }
+
+  // Share of calls that were served by another caller's upstream call.
+  getCoalescingRatio(): number {
+    const total = this.started + this.joined;
+    return total === 0 ? 0 : this.joined / total;
+  }
+
+  getStats() {
+    return {
+      inFlight: this.flights.size,
+      started: this.started,
+      coalesced: this.joined,
+    };
+  }
+
+  private attach(key: string, flight: Flight<T>, options: JoinOptions): Promise<T> {
+    const { signal, onprogress } = options;
+    if (signal?.aborted) {
+      this.detach(key, flight, signal.reason, true);
+      return Promise.reject(signal.reason);
+    }
+
+    flight.callers++;
+    if (onprogress) {
+      flight.listeners.add(onprogress);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        cleanup();
+        this.detach(key, flight, signal!.reason);
+        reject(signal!.reason);
+      };
+      const cleanup = () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (onprogress) {
+          flight.listeners.delete(onprogress);
+        }
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      flight.promise.then(
+        (value) => {
+          cleanup();
+          flight.callers--;
+          resolve(value);
+        },
+        (error) => {
+          cleanup();
+          flight.callers--;
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private detach(key: string, flight: Flight<T>, reason: unknown, neverAttached = false) {
+    if (!neverAttached) {
+      flight.callers--;
+    }
+    if (flight.callers > 0) {
+      return;
+    }
+
+    // Nobody is waiting any more; a new caller must not join a cancelled call
+    if (this.flights.get(key) === flight) {
+      this.flights.delete(key);
+    }
+    flight.controller.abort(reason);
+  }
+}
@@ -0,0 +1,57 @@
+import Database from "better-sqlite3";
+import type { CacheBackend } from "./response-cache.js";
+
+const PRUNE_EVERY_WRITES = 100;
+
+// Survives restarts and can be shared by replicas mounting the same volume.
+export class SqliteCacheBackend implements CacheBackend {
+  readonly name = "sqlite";
+  private readonly db: Database.Database;
+  private readonly selectStatement: Database.Statement;
+  private readonly upsertStatement: Database.Statement;
+  private readonly pruneStatement: Database.Statement;
+  private writes = 0;
+
+  constructor(filePath: string) {
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db
+      .prepare(
+        `CREATE TABLE IF NOT EXISTS tool_cache (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        )`
+      )
+      .run();
+
+    this.selectStatement = this.db.prepare(
+      "SELECT value FROM tool_cache WHERE key = ? AND expires_at > ?"
+    );
+    this.upsertStatement = this.db.prepare(
+      "INSERT OR REPLACE INTO tool_cache (key, value, expires_at) VALUES (?, ?, ?)"
+    );
+    this.pruneStatement = this.db.prepare(
+      "DELETE FROM tool_cache WHERE expires_at <= ?"
+    );
+  }
+
+  async get(key: string) {
+    const row = this.selectStatement.get(key, Date.now()) as
+      | { value: string }
+      | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number) {
+    this.upsertStatement.run(key, JSON.stringify(value), Date.now() + ttlMs);
+
+    if (++this.writes % PRUNE_EVERY_WRITES === 0) {
+      this.pruneStatement.run(Date.now());
+    }
+  }
+
+  async clear() {
+    this.db.prepare("DELETE FROM tool_cache").run();
+  }
+}
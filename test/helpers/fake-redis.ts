@@ -0,0 +1,169 @@
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+import { DECREMENT_SCRIPT } from "../../src/rate-limit/redis-store.js";
+
+type Reply = string | number | null | Reply[] | { status: string } | { error: string };
+
+export interface FakeRedis {
+  url: string;
+  // While set, commands are read but never answered
+  stalled: boolean;
+  // Raw value and expiry of a key, as stored
+  inspect(key: string): { value: string; expiresAt?: number } | undefined;
+  close(): Promise<void>;
+}
+
+// The subset of Redis the counter store uses: strings with PXAT expiry,
+// INCR/DECR, PTTL, DEL, SCAN, MULTI/EXEC and the store's own EVAL scripts,
+// on an ephemeral port.
+export async function startFakeRedis(): Promise<FakeRedis> {
+  const data = new Map<string, { value: string; expiresAt?: number }>();
+  const sockets = new Set<net.Socket>();
+
+  const live = (key: string) => {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = ([command, ...args]: string[]): Reply => {
+    switch (command.toUpperCase()) {
+      case "SET": {
+        if (args.includes("NX") && live(args[0])) {
+          return null;
+        }
+        const pxat = args.indexOf("PXAT");
+        data.set(args[0], {
+          value: args[1],
+          expiresAt: pxat > 0 ? Number(args[pxat + 1]) : undefined,
+        });
+        return { status: "OK" };
+      }
+      case "INCR":
+      case "DECR": {
+        const entry = live(args[0]) ?? { value: "0" };
+        entry.value = String(Number(entry.value) + (command.toUpperCase() === "INCR" ? 1 : -1));
+        data.set(args[0], entry);
+        return Number(entry.value);
+      }
+      case "PTTL": {
+        const entry = live(args[0]);
+        if (!entry) {
+          return -2;
+        }
+        return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+      }
+      case "GET":
+        return live(args[0])?.value ?? null;
+      case "DEL":
+        return data.delete(args[0]) ? 1 : 0;
+      case "EVAL": {
+        if (args[0] !== DECREMENT_SCRIPT) {
+          return { error: "NOSCRIPT unknown script" };
+        }
+        const ttl = execute(["PTTL", args[2]]) as number;
+        if (ttl > 0 && Number(live(args[2])?.value) > 0) {
+          return execute(["DECR", args[2]]);
+        }
+        return null;
+      }
+      case "SCAN": {
+        const prefix = args[2].replace(/\*$/, "").replace(/\\(.)/g, "$1");
+        return ["0", [...data.keys()].filter((key) => key.startsWith(prefix) && live(key))];
+      }
+      default:
+        return { error: `ERR unknown command '${command}'` };
+    }
+  };
+
+  const encode = (reply: Reply): string => {
+    if (reply === null) {
+      return "$-1\r\n";
+    }
+    if (typeof reply === "number") {
+      return `:${reply}\r\n`;
+    }
+    if (typeof reply === "string") {
+      return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+    }
+    if (Array.isArray(reply)) {
+      return `*${reply.length}\r\n${reply.map(encode).join("")}`;
+    }
+    return "status" in reply ? `+${reply.status}\r\n` : `-${reply.error}\r\n`;
+  };
+
+  // Returns the next complete command and the unread rest of the buffer
+  const parse = (buffer: string): [string[], string] | undefined => {
+    const header = /^\*(\d+)\r\n/.exec(buffer);
+    if (!header) {
+      return undefined;
+    }
+    let offset = header[0].length;
+    const args: string[] = [];
+    for (let i = 0; i < Number(header[1]); i++) {
+      const bulk = /^\$(\d+)\r\n/.exec(buffer.slice(offset));
+      if (!bulk) {
+        return undefined;
+      }
+      offset += bulk[0].length;
+      const length = Number(bulk[1]);
+      if (buffer.length < offset + length + 2) {
+        return undefined;
+      }
+      args.push(buffer.slice(offset, offset + length));
+      offset += length + 2;
+    }
+    return [args, buffer.slice(offset)];
+  };
+
+  const fake: FakeRedis = {
+    url: "",
+    stalled: false,
+    inspect: (key) => data.get(key),
+    close: async () => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    let buffer = "";
+    let queued: string[][] | undefined;
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      for (let next = parse(buffer); next; next = parse(buffer)) {
+        const [args, rest] = next;
+        buffer = rest;
+        if (fake.stalled) {
+          continue;
+        }
+
+        const command = args[0].toUpperCase();
+        if (command === "MULTI") {
+          queued = [];
+          socket.write(encode({ status: "OK" }));
+        } else if (command === "EXEC") {
+          socket.write(encode((queued ?? []).map(execute)));
+          queued = undefined;
+        } else if (queued) {
+          queued.push(args);
+          socket.write(encode({ status: "QUEUED" }));
+        } else {
+          socket.write(encode(execute(args)));
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  fake.url = `redis://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return fake;
+}
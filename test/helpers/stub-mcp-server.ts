@@ -0,0 +1,82 @@
+import type { AddressInfo } from "node:net";
+import type { IncomingHttpHeaders, Server as HttpServer } from "node:http";
+import express from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+export interface StubMcpServer {
+  // Stateless Streamable HTTP endpoint
+  url: string;
+  // Legacy SSE endpoint
+  sseUrl: string;
+  // Headers of every request the stub received
+  requests: IncomingHttpHeaders[];
+  close(): Promise<void>;
+}
+
+// An upstream travel server for tests, listening on an ephemeral port. Each
+// request gets a fresh McpServer set up by `register`.
+export async function startStubMcpServer(
+  register: (server: McpServer) => void
+): Promise<StubMcpServer> {
+  const requests: IncomingHttpHeaders[] = [];
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    requests.push(req.headers);
+    next();
+  });
+
+  const createServer = () => {
+    const server = new McpServer({ name: "stub", version: "1.0.0" });
+    register(server);
+    return server;
+  };
+
+  app.post("/mcp", async (req, res) => {
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      transport.close();
+      server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  app.get("/sse", async (_req, res) => {
+    const transport = new SSEServerTransport("/messages", res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on("close", () => sseTransports.delete(transport.sessionId));
+    await createServer().connect(transport);
+  });
+
+  app.post("/messages", async (req, res) => {
+    const transport = sseTransports.get(String(req.query.sessionId));
+    if (!transport) {
+      res.status(404).end();
+      return;
+    }
+    await transport.handlePostMessage(req, res, req.body);
+  });
+
+  const http: HttpServer = await new Promise((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = http.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    sseUrl: `http://127.0.0.1:${port}/sse`,
+    requests,
+    close: async () => {
+      for (const transport of sseTransports.values()) {
+        await transport.close();
+      }
+      http.closeAllConnections();
+      await new Promise<void>((resolve) => http.close(() => resolve()));
+    },
+  };
+}
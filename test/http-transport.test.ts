@@ -0,0 +1,83 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { TravelRegistry } from "../src/travel/registry.js";
+import { startStubMcpServer, StubMcpServer } from "./helpers/stub-mcp-server.js";
+
+describe("remote travel servers", () => {
+  let stub: StubMcpServer;
+  let registry: TravelRegistry;
+
+  before(async () => {
+    stub = await startStubMcpServer((server) => {
+      server.tool("echo", { text: z.string() }, async ({ text }) => ({
+        content: [{ type: "text", text: `echo:${text}` }],
+      }));
+      server.resource("info", "stub://info", async (uri) => ({
+        contents: [{ uri: uri.href, text: "stub info" }],
+      }));
+    });
+
+    process.env.STUB_MCP_TOKEN = "stub-secret";
+    registry = new TravelRegistry([
+      {
+        id: "remote",
+        title: "Remote",
+        transport: "http",
+        url: stub.url,
+        toolPrefix: "remote",
+        auth: { type: "bearer", tokenEnv: "STUB_MCP_TOKEN" },
+        healthCheck: false,
+      },
+      {
+        id: "legacy",
+        title: "Legacy",
+        transport: "sse",
+        url: stub.sseUrl,
+        toolPrefix: "legacy",
+        collisionPolicy: "suffix",
+        healthCheck: false,
+      },
+    ]);
+    await registry.start();
+  });
+
+  after(async () => {
+    await registry.shutdown();
+    await stub.close();
+  });
+
+  it("lists the tools of both transports under their prefixes", () => {
+    const names = registry.listTools().map((tool) => tool.name).sort();
+    assert.deepEqual(names, ["legacy_echo", "remote_echo"]);
+  });
+
+  it("calls tools over Streamable HTTP and SSE", async () => {
+    const http = await registry.callTool("remote_echo", { text: "paris" });
+    const sse = await registry.callTool("legacy_echo", { text: "rome" });
+
+    assert.deepEqual(http.content, [{ type: "text", text: "echo:paris" }]);
+    assert.deepEqual(sse.content, [{ type: "text", text: "echo:rome" }]);
+  });
+
+  it("sends the configured bearer token upstream", () => {
+    const authorizations = new Set(stub.requests.map((headers) => headers.authorization));
+    assert.ok(authorizations.has("Bearer stub-secret"));
+  });
+
+  it("reads resources from a remote server", async () => {
+    const result = await registry.readResource("stub://info");
+    assert.equal(result.contents[0].text, "stub info");
+  });
+
+  it("reports both servers as up", () => {
+    const health = registry.getServerHealth();
+    assert.deepEqual(
+      health.map(({ id, status, connected }) => ({ id, status, connected })),
+      [
+        { id: "remote", status: "up", connected: true },
+        { id: "legacy", status: "up", connected: true },
+      ]
+    );
+  });
+});
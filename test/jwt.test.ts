@@ -0,0 +1,92 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { generateKeyPairSync } from "node:crypto";
+import jwt from "jsonwebtoken";
+import { loadAuthConfig } from "../src/auth/oidc.js";
+import { USER_DETAILS_USER_DEMO } from "../src/auth/user-details-demo.js";
+
+// JWTService reads the secret when its module is first evaluated
+process.env.JWT_SECRET = "jwt-test-secret";
+const { JWTService } = await import("../src/auth/jwt.js");
+
+// Shaped like the tokens `npm run generate-token` has always written: no
+// registered iss/aud claims.
+function legacyToken(secret = process.env.JWT_SECRET!): string {
+  return jwt.sign({ ...USER_DETAILS_USER_DEMO, issuer: "urn:foo", audience: "urn:bar" }, secret, {
+    algorithm: "HS256",
+    expiresIn: "1h",
+  });
+}
+
+describe("HS256 tokens", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "jwt-test-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  for (const issuers of [false, true]) {
+    describe(issuers ? "with identity provider issuers" : "without an auth config", () => {
+      before(() => {
+        if (!issuers) {
+          const { config, baseDir } = loadAuthConfig();
+          JWTService.configure(config, baseDir);
+          return;
+        }
+
+        const { publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+        fs.writeFileSync(
+          path.join(dir, "jwks.json"),
+          JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "k1" }] })
+        );
+        fs.writeFileSync(
+          path.join(dir, "auth.json"),
+          JSON.stringify({
+            issuers: [
+              {
+                issuer: "https://login.example.com",
+                audience: "travel-gateway",
+                jwksFile: "./jwks.json",
+                defaultRole: "readonly",
+              },
+            ],
+          })
+        );
+        const { config, baseDir } = loadAuthConfig(path.join(dir, "auth.json"));
+        JWTService.configure(config, baseDir);
+      });
+
+      it("accepts a token without iss and aud claims", async () => {
+        const user = await JWTService.verifyToken(legacyToken());
+
+        assert.equal(user.id, USER_DETAILS_USER_DEMO.id);
+        assert.equal(user.role, USER_DETAILS_USER_DEMO.role);
+      });
+
+      it("accepts a token with any iss and aud", async () => {
+        const token = jwt.sign(USER_DETAILS_USER_DEMO, process.env.JWT_SECRET!, {
+          algorithm: "HS256",
+          issuer: "urn:elsewhere",
+          audience: "urn:someone-else",
+        });
+
+        const user = await JWTService.verifyToken(token);
+        assert.equal(user.id, USER_DETAILS_USER_DEMO.id);
+      });
+
+      it("rejects a token signed with another secret", async () => {
+        await assert.rejects(
+          JWTService.verifyToken(legacyToken("not-the-secret")),
+          /Invalid token: invalid signature/
+        );
+      });
+    });
+  }
+});
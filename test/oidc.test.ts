@@ -0,0 +1,135 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { generateKeyPairSync, KeyObject } from "node:crypto";
+import jwt from "jsonwebtoken";
+import { JWTService } from "../src/auth/jwt.js";
+import { loadAuthConfig } from "../src/auth/oidc.js";
+import { UserRole } from "../src/auth/authorization.js";
+
+const ISSUER = "https://login.example.com/realms/travel";
+const PARTNER_ISSUER = "https://partner.example.com";
+const AUDIENCE = "travel-gateway";
+
+describe("asymmetric tokens from a JWKS file", () => {
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const stranger = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const partner = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  let dir: string;
+
+  function sign(
+    key: KeyObject,
+    options: Partial<jwt.SignOptions> = {},
+    payload: object = { roles: ["travel-admin"] }
+  ): string {
+    return jwt.sign({ email: "ada@example.com", ...payload }, key, {
+      algorithm: "RS256",
+      keyid: "rsa-1",
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      subject: "ada",
+      expiresIn: "10m",
+      ...options,
+    });
+  }
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "oidc-test-"));
+    fs.writeFileSync(
+      path.join(dir, "jwks.json"),
+      JSON.stringify({
+        keys: [
+          { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1", alg: "RS256", use: "sig" },
+          { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1", alg: "ES256", use: "sig" },
+        ],
+      })
+    );
+    fs.writeFileSync(
+      path.join(dir, "partner-jwks.json"),
+      JSON.stringify({
+        keys: [{ ...partner.publicKey.export({ format: "jwk" }), kid: "partner-1", alg: "RS256" }],
+      })
+    );
+    fs.writeFileSync(
+      path.join(dir, "auth.yaml"),
+      [
+        "issuers:",
+        `  - issuer: ${ISSUER}`,
+        `    audience: ${AUDIENCE}`,
+        "    jwksFile: ./jwks.json",
+        "    defaultRole: readonly",
+        "    mappings:",
+        "      - claim: roles",
+        "        value: travel-admin",
+        "        role: admin",
+        `  - issuer: ${PARTNER_ISSUER}`,
+        `    audience: ${AUDIENCE}`,
+        "    jwksFile: ./partner-jwks.json",
+        "    defaultRole: user",
+      ].join("\n")
+    );
+
+    const { config, baseDir } = loadAuthConfig(path.join(dir, "auth.yaml"));
+    JWTService.configure(config, baseDir);
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("accepts an RS256 token and maps its claims onto a role", async () => {
+    const user = await JWTService.verifyToken(sign(rsa.privateKey));
+
+    assert.equal(user.id, `${ISSUER}|ada`);
+    assert.equal(user.email, "ada@example.com");
+    assert.equal(user.role, UserRole.ADMIN);
+  });
+
+  it("keeps the same subject from two issuers apart", async () => {
+    const ours = await JWTService.verifyToken(sign(rsa.privateKey));
+    const theirs = await JWTService.verifyToken(
+      sign(partner.privateKey, { keyid: "partner-1", issuer: PARTNER_ISSUER })
+    );
+
+    assert.equal(theirs.id, `${PARTNER_ISSUER}|ada`);
+    assert.notEqual(ours.id, theirs.id);
+  });
+
+  it("falls back to the issuer's default role", async () => {
+    const token = sign(ec.privateKey, { algorithm: "ES256", keyid: "ec-1" }, {});
+
+    const user = await JWTService.verifyToken(token);
+    assert.equal(user.role, UserRole.READONLY);
+  });
+
+  it("rejects a token whose kid is not in the key set", async () => {
+    await assert.rejects(
+      JWTService.verifyToken(sign(rsa.privateKey, { keyid: "rsa-2" })),
+      /No RS256 signing key with kid "rsa-2"/
+    );
+  });
+
+  it("rejects a token signed by another key under a known kid", async () => {
+    await assert.rejects(
+      JWTService.verifyToken(sign(stranger.privateKey)),
+      /invalid signature/
+    );
+  });
+
+  it("rejects a token from an issuer that is not trusted", async () => {
+    await assert.rejects(
+      JWTService.verifyToken(sign(rsa.privateKey, { issuer: "https://evil.example.com" })),
+      /untrusted issuer/
+    );
+  });
+
+  it("rejects a token for another audience", async () => {
+    await assert.rejects(
+      JWTService.verifyToken(sign(rsa.privateKey, { audience: "someone-else" })),
+      /audience invalid/
+    );
+  });
+});
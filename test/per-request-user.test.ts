@@ -0,0 +1,149 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server as HttpServer } from "node:http";
+import express from "express";
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { TravelRegistry } from "../src/travel/registry.js";
+import { MemoryCounterStore } from "../src/rate-limit/store.js";
+import {
+  USER_DETAILS_ADMIN_DEMO,
+  USER_DETAILS_READONLY_DEMO,
+  USER_DETAILS_USER_DEMO,
+} from "../src/auth/user-details-demo.js";
+import { startStubMcpServer, StubMcpServer } from "./helpers/stub-mcp-server.js";
+
+// JWTService reads the secret when its module is first evaluated
+process.env.JWT_SECRET = "per-request-user-test-secret";
+const { StreamableHTTPServer } = await import("../src/server.js");
+const { createSecurityMiddlewares } = await import("../src/server-middlewares.js");
+
+const CALLS_PER_USER = 8;
+
+function signToken(user: typeof USER_DETAILS_ADMIN_DEMO): string {
+  return jwt.sign(user, process.env.JWT_SECRET!, {
+    algorithm: "HS256",
+    issuer: "urn:foo",
+    audience: "urn:bar",
+    expiresIn: "1h",
+  });
+}
+
+describe("per-request user context", () => {
+  let stub: StubMcpServer;
+  let registry: TravelRegistry;
+  let gateway: HttpServer;
+  let gatewayUrl: URL;
+  // Tool argument -> id of the user the registry was called for
+  const callers = new Map<string, string>();
+
+  before(async () => {
+    stub = await startStubMcpServer((server) => {
+      server.tool("echo", { text: z.string() }, async ({ text }) => {
+        // Stagger replies so requests from different users overlap
+        await new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+        return { content: [{ type: "text", text }] };
+      });
+    });
+
+    registry = new TravelRegistry([
+      {
+        id: "stub",
+        title: "Stub",
+        transport: "http",
+        url: stub.url,
+        toolPrefix: "stub",
+        healthCheck: false,
+      },
+    ]);
+    await registry.start();
+
+    const callTool = registry.callTool.bind(registry);
+    registry.callTool = async (name, args, options) => {
+      callers.set(String(args.text), options?.user?.id ?? "none");
+      return callTool(name, args, options);
+    };
+
+    const server = new StreamableHTTPServer(registry);
+    const app = express();
+    app.use(
+      createSecurityMiddlewares(
+        {
+          windowMs: 60_000,
+          max: 0,
+          store: "memory",
+          sqlitePath: "",
+          redisUrl: "",
+        },
+        new MemoryCounterStore()
+      )
+    );
+    app.all("/mcp", (req, res) => server.handleStreamableHTTP(req, res));
+
+    gateway = await new Promise((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    gatewayUrl = new URL(`http://127.0.0.1:${(gateway.address() as AddressInfo).port}/mcp`);
+  });
+
+  after(async () => {
+    gateway.closeAllConnections();
+    await new Promise<void>((resolve) => gateway.close(() => resolve()));
+    await registry.shutdown();
+    await stub.close();
+  });
+
+  async function connect(user: typeof USER_DETAILS_ADMIN_DEMO): Promise<Client> {
+    const client = new Client({ name: `client-${user.role}`, version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(gatewayUrl, {
+        requestInit: { headers: { Authorization: `Bearer ${signToken(user)}` } },
+      })
+    );
+    return client;
+  }
+
+  it("never runs one user's call under another user's identity", async () => {
+    const admin = await connect(USER_DETAILS_ADMIN_DEMO);
+    const user = await connect(USER_DETAILS_USER_DEMO);
+    const readonly = await connect(USER_DETAILS_READONLY_DEMO);
+
+    try {
+      const calls = [];
+      for (let i = 0; i < CALLS_PER_USER; i++) {
+        for (const [client, details] of [
+          [admin, USER_DETAILS_ADMIN_DEMO],
+          [user, USER_DETAILS_USER_DEMO],
+          [readonly, USER_DETAILS_READONLY_DEMO],
+        ] as const) {
+          const text = `${details.id}#${i}`;
+          calls.push(
+            client.callTool({ name: "stub_echo", arguments: { text } }).then(
+              (result) => ({ details, text, result, error: undefined }),
+              (error: unknown) => ({ details, text, result: undefined, error })
+            )
+          );
+        }
+      }
+
+      for (const { details, text, result, error } of await Promise.all(calls)) {
+        if (details.role === "readonly") {
+          assert.ok(error instanceof McpError, `${text} should be denied`);
+          assert.equal(error.code, -32001);
+          assert.equal(callers.has(text), false);
+        } else {
+          assert.equal(error, undefined);
+          assert.deepEqual(result?.content, [{ type: "text", text }]);
+          assert.equal(callers.get(text), details.id);
+        }
+      }
+      assert.equal(callers.size, CALLS_PER_USER * 2);
+    } finally {
+      await Promise.all([admin.close(), user.close(), readonly.close()]);
+    }
+  });
+});
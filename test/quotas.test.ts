@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveQuotaPolicies } from "../src/travel/quotas.js";
+import { TravelRegistry } from "../src/travel/registry.js";
+
+describe("quota policies", () => {
+  it("resolves ids and windows", () => {
+    assert.deepEqual(
+      resolveQuotaPolicies("flight", [
+        { tool: "search_flights", limit: 10, windowMs: 3_600_000 },
+        { roles: ["readonly"], limit: 0 },
+      ]),
+      [
+        {
+          tool: "search_flights",
+          limit: 10,
+          windowMs: 3_600_000,
+          serverId: "flight",
+          id: "flight:search_flights",
+        },
+        { roles: ["readonly"], limit: 0, windowMs: 0, serverId: "flight", id: "flight:*:readonly" },
+      ]
+    );
+  });
+
+  it("rejects a limit without a window", () => {
+    assert.throws(
+      () => resolveQuotaPolicies("flight", [{ tool: "search_flights", limit: 10 }]),
+      /Quota "flight:search_flights" of travel server "flight" needs a positive windowMs/
+    );
+  });
+
+  it("rejects a negative limit", () => {
+    assert.throws(
+      () => resolveQuotaPolicies("flight", [{ limit: -1, windowMs: 1000 }]),
+      /needs a limit of 0 or more/
+    );
+  });
+
+  it("keeps a registry with a bad built-in quota from being created", () => {
+    assert.throws(
+      () =>
+        new TravelRegistry([
+          {
+            id: "flight",
+            title: "Flights",
+            transport: "http",
+            url: "http://127.0.0.1:9/mcp",
+            quotas: [{ limit: 10 }],
+          },
+        ]),
+      /needs a positive windowMs/
+    );
+  });
+});
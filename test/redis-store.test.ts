@@ -0,0 +1,95 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RedisCounterStore } from "../src/rate-limit/redis-store.js";
+import { startFakeRedis, FakeRedis } from "./helpers/fake-redis.js";
+
+const WINDOW_MS = 60_000;
+
+describe("RedisCounterStore", () => {
+  let redis: FakeRedis;
+  let store: RedisCounterStore;
+  let replica: RedisCounterStore;
+
+  before(async () => {
+    redis = await startFakeRedis();
+    store = new RedisCounterStore(redis.url);
+    replica = new RedisCounterStore(redis.url);
+  });
+
+  after(async () => {
+    await store.close();
+    await replica.close();
+    await redis.close();
+  });
+
+  it("counts hits from every replica in one window", async () => {
+    const counters = await Promise.all(
+      [store, replica, store, replica, store].map((client) =>
+        client.increment("http:10.0.0.1", WINDOW_MS)
+      )
+    );
+
+    assert.deepEqual(
+      counters.map((counter) => counter.count).sort(),
+      [1, 2, 3, 4, 5]
+    );
+    const windowEnd = (Math.floor(Date.now() / WINDOW_MS) + 1) * WINDOW_MS;
+    for (const counter of counters) {
+      assert.equal(counter.key, "http:10.0.0.1");
+      assert.ok(Math.abs(counter.resetAt - windowEnd) < 1000);
+    }
+  });
+
+  it("lists live counters by prefix", async () => {
+    await store.increment("quota:flights:search|alice", WINDOW_MS);
+
+    const quotas = await replica.list("quota:");
+    assert.deepEqual(
+      quotas.map(({ key, count }) => ({ key, count })),
+      [{ key: "quota:flights:search|alice", count: 1 }]
+    );
+  });
+
+  it("decrements a live counter", async () => {
+    await store.decrement("http:10.0.0.1");
+
+    const [counter] = await store.list("http:");
+    assert.equal(counter.count, 4);
+  });
+
+  it("does not create a missing counter on decrement", async () => {
+    await store.decrement("quota:never-counted");
+
+    const counter = await store.increment("quota:never-counted", WINDOW_MS);
+    assert.equal(counter.count, 1);
+  });
+
+  it("leaves a counter that expired before the decrement gone", async () => {
+    const counter = await store.increment("expiring:10.0.0.3", 50);
+    await new Promise((resolve) => setTimeout(resolve, counter.resetAt - Date.now() + 10));
+
+    await store.decrement("expiring:10.0.0.3");
+
+    assert.equal(redis.inspect("mcp-gateway:expiring:10.0.0.3"), undefined);
+    const next = await store.increment("expiring:10.0.0.3", 50);
+    assert.equal(next.count, 1);
+    assert.ok(redis.inspect("mcp-gateway:expiring:10.0.0.3")?.expiresAt);
+  });
+
+  it("starts over after a reset", async () => {
+    await store.reset("http:10.0.0.1");
+
+    assert.deepEqual(await replica.list("http:"), []);
+    const counter = await replica.increment("http:10.0.0.1", WINDOW_MS);
+    assert.equal(counter.count, 1);
+  });
+
+  it("fails a command Redis never answers and recovers afterwards", async () => {
+    redis.stalled = true;
+    await assert.rejects(store.increment("http:10.0.0.2", WINDOW_MS), /No reply to MULTI/);
+
+    redis.stalled = false;
+    const counter = await store.increment("http:10.0.0.2", WINDOW_MS);
+    assert.equal(counter.count, 1);
+  });
+});
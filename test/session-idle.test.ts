@@ -0,0 +1,111 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server as HttpServer } from "node:http";
+import express from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { StreamableHTTPServer } from "../src/server.js";
+import { TravelRegistry } from "../src/travel/registry.js";
+
+const IDLE_TIMEOUT_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("stateful session expiry", () => {
+  let registry: TravelRegistry;
+  let server: InstanceType<typeof StreamableHTTPServer>;
+  let gateway: HttpServer;
+  let gatewayUrl: URL;
+
+  before(async () => {
+    // The idle sweep runs on an interval and compares Date.now()
+    mock.timers.enable({ apis: ["setInterval", "Date"], now: Date.now() });
+
+    registry = new TravelRegistry([]);
+    await registry.start();
+    server = new StreamableHTTPServer(registry, {
+      stateful: true,
+      sessionIdleTimeoutMs: IDLE_TIMEOUT_MS,
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.all("/mcp", (req, res) => server.handleStreamableHTTP(req, res));
+    gateway = await new Promise((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    gatewayUrl = new URL(`http://127.0.0.1:${(gateway.address() as AddressInfo).port}/mcp`);
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await server.close();
+    gateway.closeAllConnections();
+    await new Promise<void>((resolve) => gateway.close(() => resolve()));
+    await registry.shutdown();
+  });
+
+  // Initializes a session over plain POSTs, without opening a GET stream
+  async function openSessionWithoutStream(): Promise<string> {
+    const post = (body: object, sessionId?: string) =>
+      fetch(gatewayUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+
+    const initialized = await post({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "quiet-client", version: "1.0.0" },
+      },
+    });
+    const sessionId = initialized.headers.get("mcp-session-id")!;
+    await initialized.text();
+    await (await post({ jsonrpc: "2.0", method: "notifications/initialized" }, sessionId)).text();
+    return sessionId;
+  }
+
+  it("keeps a session with an open GET stream and closes a quiet one", async () => {
+    const transport = new StreamableHTTPClientTransport(gatewayUrl);
+    const client = new Client({ name: "streaming-client", version: "1.0.0" });
+    await client.connect(transport);
+    const quietSessionId = await openSessionWithoutStream();
+
+    try {
+      // Let the client's standalone GET stream reach the server
+      await sleep(200);
+
+      mock.timers.tick(60 * 1000 + IDLE_TIMEOUT_MS);
+      await sleep(50);
+
+      const sessionIds = server.listSessions().map((session) => session.sessionId);
+      assert.deepEqual(sessionIds, [transport.sessionId]);
+      await client.ping();
+
+      const expired = await fetch(gatewayUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "Mcp-Session-Id": quietSessionId,
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+      });
+      await expired.text();
+      assert.equal(expired.status, 404);
+    } finally {
+      await client.close();
+    }
+  });
+});